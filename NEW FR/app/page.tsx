@@ -26,19 +26,28 @@ interface Pool {
   tokenA: Token
   tokenB: Token
   liquidity: Array<{
+    action: "ADD" | "REMOVE"
     amountA: string
     amountB: string
+    liquidity: string
     provider: string
-    createdAt: string
+    recipient: string | null
+    txOrigin: string
+    timestamp: string
   }>
   swaps?: Array<{
     trader: string
     amountIn: string
     amountOut: string
-    tokenIn: string
-    tokenOut: string
-    createdAt: string
+    tokenInId: number
+    tokenOutId: number
+    recipient: string
+    timestamp: string
   }>
+  reserves?: {
+    reserveA: string
+    reserveB: string
+  }
 }
 
 const zero = (v = 0n) => v === 0n
@@ -111,15 +120,9 @@ export default function App() {
     const tokenBDecimals =
       typeof pool.tokenB.decimals === "string" ? Number.parseInt(pool.tokenB.decimals) : pool.tokenB.decimals
 
-    const reserveA = pool.liquidity.reduce((acc, l) => {
-      const amount = Number.parseFloat(l.amountA)
-      return acc + (isNaN(amount) ? 0 : amount)
-    }, 0)
-
-    const reserveB = pool.liquidity.reduce((acc, l) => {
-      const amount = Number.parseFloat(l.amountB)
-      return acc + (isNaN(amount) ? 0 : amount)
-    }, 0)
+    // reserves come from the latest Sync snapshot indexed by the backend
+    const reserveA = Number.parseFloat(pool.reserves?.reserveA ?? "0")
+    const reserveB = Number.parseFloat(pool.reserves?.reserveB ?? "0")
 
     const totalSwaps = pool.swaps?.length || 0
 
@@ -742,7 +745,7 @@ export default function App() {
                                       {swap.trader.slice(0, 6)}...{swap.trader.slice(-4)}
                                     </td>
                                     <td className="p-3 text-gray-300">
-                                      {swap.tokenIn === "token0"
+                                      {swap.tokenInId === selectedPool.tokenA.id
                                         ? selectedPool.tokenA.symbol
                                         : selectedPool.tokenB.symbol}
                                     </td>
@@ -750,13 +753,13 @@ export default function App() {
                                       {Number.parseFloat(swap.amountIn as string) /
                                         Math.pow(
                                           10,
-                                          swap.tokenIn === "token0"
+                                          swap.tokenInId === selectedPool.tokenA.id
                                             ? Number(selectedPool.tokenA.decimals)
                                             : Number(selectedPool.tokenB.decimals),
                                         )}
                                     </td>
                                     <td className="p-3 text-gray-300">
-                                      {swap.tokenOut === "token0"
+                                      {swap.tokenOutId === selectedPool.tokenA.id
                                         ? selectedPool.tokenA.symbol
                                         : selectedPool.tokenB.symbol}
                                     </td>
@@ -764,13 +767,13 @@ export default function App() {
                                       {Number.parseFloat(swap.amountOut as string) /
                                         Math.pow(
                                           10,
-                                          swap.tokenOut === "token0"
+                                          swap.tokenOutId === selectedPool.tokenA.id
                                             ? Number(selectedPool.tokenA.decimals)
                                             : Number(selectedPool.tokenB.decimals),
                                         )}
                                     </td>
                                     <td className="p-3 text-gray-300">
-                                      {new Date(Number(swap.createdAt)).toLocaleString()}
+                                      {new Date(swap.timestamp).toLocaleString()}
                                     </td>
                                   </tr>
                                 ))}
@@ -801,7 +804,7 @@ export default function App() {
                                 {selectedPool.liquidity.map((liq, index) => {
                                   const amountA = Number.parseFloat(liq.amountA)
                                   const amountB = Number.parseFloat(liq.amountB)
-                                  const isAdd = amountA >= 0 && amountB >= 0
+                                  const isAdd = liq.action === "ADD"
 
                                   return (
                                     <tr key={index} className="border-t border-gray-700">
@@ -816,13 +819,13 @@ export default function App() {
                                         </span>
                                       </td>
                                       <td className="p-3 text-gray-300">
-                                        {Math.abs(amountA) / Math.pow(10, Number(selectedPool.tokenA.decimals))}
+                                        {amountA / Math.pow(10, Number(selectedPool.tokenA.decimals))}
                                       </td>
                                       <td className="p-3 text-gray-300">
-                                        {Math.abs(amountB) / Math.pow(10, Number(selectedPool.tokenB.decimals))}
+                                        {amountB / Math.pow(10, Number(selectedPool.tokenB.decimals))}
                                       </td>
                                       <td className="p-3 text-gray-300">
-                                        {new Date(Number(liq.createdAt)).toLocaleString()}
+                                        {new Date(liq.timestamp).toLocaleString()}
                                       </td>
                                     </tr>
                                   )
@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "public"."Checkpoint" (
+    "address" TEXT NOT NULL,
+    "stream" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Checkpoint_pkey" PRIMARY KEY ("address","stream")
+);
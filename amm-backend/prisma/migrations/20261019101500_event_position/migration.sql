@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."Liquidity" ADD COLUMN     "blockNumber" INTEGER,
+ADD COLUMN     "logIndex" INTEGER,
+ADD COLUMN     "txHash" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Swap" ADD COLUMN     "blockNumber" INTEGER,
+ADD COLUMN     "logIndex" INTEGER,
+ADD COLUMN     "txHash" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Liquidity_txHash_logIndex_key" ON "public"."Liquidity"("txHash", "logIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swap_txHash_logIndex_key" ON "public"."Swap"("txHash", "logIndex");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Pool" ADD COLUMN     "blockNumber" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."IndexedBlock" (
+    "number" INTEGER NOT NULL,
+    "hash" TEXT NOT NULL,
+    "parentHash" TEXT,
+
+    CONSTRAINT "IndexedBlock_pkey" PRIMARY KEY ("number")
+);
@@ -0,0 +1,18 @@
+-- Existing swaps were decoded with a Uniswap-style layout: their amount columns hold
+-- token addresses and the real amounts were never stored, so they cannot be repaired.
+-- Drop them and rewind the pair checkpoints so the next backfill re-ingests every swap.
+DELETE FROM "public"."Swap";
+DELETE FROM "public"."Checkpoint" WHERE "stream" = 'pair';
+
+-- AlterTable
+ALTER TABLE "public"."Swap" DROP COLUMN "tokenIn",
+DROP COLUMN "tokenOut",
+ADD COLUMN     "recipient" TEXT NOT NULL,
+ADD COLUMN     "tokenInId" INTEGER NOT NULL,
+ADD COLUMN     "tokenOutId" INTEGER NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_tokenInId_fkey" FOREIGN KEY ("tokenInId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_tokenOutId_fkey" FOREIGN KEY ("tokenOutId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
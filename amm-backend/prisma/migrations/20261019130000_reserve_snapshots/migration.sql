@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."ReserveSnapshot" (
+    "id" SERIAL NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "reserveA" TEXT NOT NULL,
+    "reserveB" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReserveSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReserveSnapshot_poolId_blockNumber_idx" ON "public"."ReserveSnapshot"("poolId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReserveSnapshot_txHash_logIndex_key" ON "public"."ReserveSnapshot"("txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReserveSnapshot" ADD CONSTRAINT "ReserveSnapshot_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "public"."LpTransfer" (
+    "id" SERIAL NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+
+    CONSTRAINT "LpTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LpPosition" (
+    "poolId" INTEGER NOT NULL,
+    "holder" TEXT NOT NULL,
+    "balance" TEXT NOT NULL,
+    "firstBlock" INTEGER NOT NULL,
+    "lastBlock" INTEGER NOT NULL,
+
+    CONSTRAINT "LpPosition_pkey" PRIMARY KEY ("poolId","holder")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LpTransfer_txHash_logIndex_key" ON "public"."LpTransfer"("txHash", "logIndex");
+
+-- CreateIndex
+CREATE INDEX "LpPosition_holder_idx" ON "public"."LpPosition"("holder");
+
+-- AddForeignKey
+ALTER TABLE "public"."LpTransfer" ADD CONSTRAINT "LpTransfer_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LpPosition" ADD CONSTRAINT "LpPosition_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Transfers were never indexed, rewind the pair checkpoints so the next backfill picks
+-- them up; the other pair events are upserted and replay harmlessly
+DELETE FROM "public"."Checkpoint" WHERE "stream" = 'pair';
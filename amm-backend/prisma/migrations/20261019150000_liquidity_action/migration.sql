@@ -0,0 +1,14 @@
+-- Existing Burn rows were decoded against the wrong argument order (LP shares in
+-- amountA, amount1 dropped) and no row stored its LP shares or tx origin. Drop them
+-- and rewind the pair checkpoints so the next backfill re-ingests every Mint and Burn.
+DELETE FROM "public"."Liquidity";
+DELETE FROM "public"."Checkpoint" WHERE "stream" = 'pair';
+
+-- CreateEnum
+CREATE TYPE "public"."LiquidityAction" AS ENUM ('ADD', 'REMOVE');
+
+-- AlterTable
+ALTER TABLE "public"."Liquidity" ADD COLUMN     "action" "public"."LiquidityAction" NOT NULL,
+ADD COLUMN     "liquidity" TEXT NOT NULL,
+ADD COLUMN     "recipient" TEXT,
+ADD COLUMN     "txOrigin" TEXT NOT NULL;
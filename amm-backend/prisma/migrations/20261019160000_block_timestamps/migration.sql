@@ -0,0 +1,30 @@
+-- Block timestamps start out as the insertion time, every checkpoint is rewound so the
+-- next backfill rewrites them with the time of the block each event was emitted in.
+
+-- AlterTable
+ALTER TABLE "public"."Pool" ADD COLUMN     "timestamp" TIMESTAMP(3);
+UPDATE "public"."Pool" SET "timestamp" = "createdAt";
+ALTER TABLE "public"."Pool" ALTER COLUMN "timestamp" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Swap" ADD COLUMN     "timestamp" TIMESTAMP(3);
+UPDATE "public"."Swap" SET "timestamp" = "createdAt";
+ALTER TABLE "public"."Swap" ALTER COLUMN "timestamp" SET NOT NULL,
+ALTER COLUMN "txHash" SET NOT NULL,
+ALTER COLUMN "blockNumber" SET NOT NULL,
+ALTER COLUMN "logIndex" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Liquidity" ADD COLUMN     "timestamp" TIMESTAMP(3);
+UPDATE "public"."Liquidity" SET "timestamp" = "createdAt";
+ALTER TABLE "public"."Liquidity" ALTER COLUMN "timestamp" SET NOT NULL,
+ALTER COLUMN "txHash" SET NOT NULL,
+ALTER COLUMN "blockNumber" SET NOT NULL,
+ALTER COLUMN "logIndex" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."LpTransfer" ADD COLUMN     "timestamp" TIMESTAMP(3);
+UPDATE "public"."LpTransfer" SET "timestamp" = NOW();
+ALTER TABLE "public"."LpTransfer" ALTER COLUMN "timestamp" SET NOT NULL;
+
+DELETE FROM "public"."Checkpoint";
@@ -0,0 +1,5 @@
+-- Tokens stored so far were read strictly and count as verified.
+
+-- AlterTable
+ALTER TABLE "public"."Token" ADD COLUMN     "metadataCheckedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "metadataVerified" BOOLEAN NOT NULL DEFAULT true;
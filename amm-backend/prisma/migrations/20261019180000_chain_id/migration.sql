@@ -0,0 +1,54 @@
+-- Rows indexed before chains were configured belong to the local chain (31337), the id an
+-- env-only setup still uses. Update them before deploying if they came from another network.
+
+-- DropIndex
+DROP INDEX "public"."Token_address_key";
+
+-- DropIndex
+DROP INDEX "public"."Pool_address_key";
+
+-- DropIndex
+DROP INDEX "public"."Liquidity_txHash_logIndex_key";
+
+-- DropIndex
+DROP INDEX "public"."Swap_txHash_logIndex_key";
+
+-- AlterTable
+ALTER TABLE "public"."Token" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 31337;
+ALTER TABLE "public"."Token" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."Pool" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 31337;
+ALTER TABLE "public"."Pool" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."Liquidity" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 31337;
+ALTER TABLE "public"."Liquidity" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."Swap" ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 31337;
+ALTER TABLE "public"."Swap" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."Checkpoint" DROP CONSTRAINT "Checkpoint_pkey",
+ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 31337,
+ADD CONSTRAINT "Checkpoint_pkey" PRIMARY KEY ("chainId", "address", "stream");
+ALTER TABLE "public"."Checkpoint" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "public"."IndexedBlock" DROP CONSTRAINT "IndexedBlock_pkey",
+ADD COLUMN     "chainId" INTEGER NOT NULL DEFAULT 31337,
+ADD CONSTRAINT "IndexedBlock_pkey" PRIMARY KEY ("chainId", "number");
+ALTER TABLE "public"."IndexedBlock" ALTER COLUMN "chainId" DROP DEFAULT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Token_chainId_address_key" ON "public"."Token"("chainId", "address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Pool_chainId_address_key" ON "public"."Pool"("chainId", "address");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Liquidity_chainId_txHash_logIndex_key" ON "public"."Liquidity"("chainId", "txHash", "logIndex");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swap_chainId_txHash_logIndex_key" ON "public"."Swap"("chainId", "txHash", "logIndex");
@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookEvent" AS ENUM ('SWAP', 'LIQUIDITY', 'POOL_CREATED');
+
+-- CreateEnum
+CREATE TYPE "public"."DeliveryStatus" AS ENUM ('PENDING', 'DELIVERED', 'DEAD');
+
+-- CreateTable
+CREATE TABLE "public"."WebhookSubscription" (
+    "id" SERIAL NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "url" TEXT NOT NULL,
+    "secret" TEXT NOT NULL,
+    "events" "public"."WebhookEvent"[],
+    "poolAddress" TEXT,
+    "tokenAddress" TEXT,
+    "minAmount" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WebhookSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."WebhookDelivery" (
+    "id" SERIAL NOT NULL,
+    "subscriptionId" INTEGER NOT NULL,
+    "event" "public"."WebhookEvent" NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" "public"."DeliveryStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastError" TEXT,
+    "responseStatus" INTEGER,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "deliveredAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookDelivery_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookSubscription_chainId_active_idx" ON "public"."WebhookSubscription"("chainId", "active");
+
+-- CreateIndex
+CREATE INDEX "WebhookDelivery_status_nextAttemptAt_idx" ON "public"."WebhookDelivery"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookDelivery_subscriptionId_txHash_logIndex_key" ON "public"."WebhookDelivery"("subscriptionId", "txHash", "logIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."WebhookDelivery" ADD CONSTRAINT "WebhookDelivery_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "public"."WebhookSubscription"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Token amounts become exact integers, so volumes and totals can be summed in SQL.
+-- Burns indexed before the action column stored amounts as "-"-prefixed strings;
+-- the action now says which way liquidity moved, so only the magnitude is kept.
+
+-- AlterTable
+ALTER TABLE "public"."Swap" ALTER COLUMN "amountIn" SET DATA TYPE DECIMAL(78,0) USING "amountIn"::DECIMAL(78,0),
+ALTER COLUMN "amountOut" SET DATA TYPE DECIMAL(78,0) USING "amountOut"::DECIMAL(78,0);
+
+-- AlterTable
+ALTER TABLE "public"."Liquidity" ALTER COLUMN "amountA" SET DATA TYPE DECIMAL(78,0) USING ltrim("amountA", '-')::DECIMAL(78,0),
+ALTER COLUMN "amountB" SET DATA TYPE DECIMAL(78,0) USING ltrim("amountB", '-')::DECIMAL(78,0);
@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "public"."PoolHourData" (
+    "poolId" INTEGER NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "openReserveA" DECIMAL(78,0) NOT NULL,
+    "openReserveB" DECIMAL(78,0) NOT NULL,
+    "closeReserveA" DECIMAL(78,0) NOT NULL,
+    "closeReserveB" DECIMAL(78,0) NOT NULL,
+    "volumeA" DECIMAL(78,0) NOT NULL,
+    "volumeB" DECIMAL(78,0) NOT NULL,
+    "feesA" DECIMAL(78,0) NOT NULL,
+    "feesB" DECIMAL(78,0) NOT NULL,
+    "swapCount" INTEGER NOT NULL,
+    "lpCount" INTEGER NOT NULL,
+
+    CONSTRAINT "PoolHourData_pkey" PRIMARY KEY ("poolId","periodStart")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PoolDayData" (
+    "poolId" INTEGER NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "openReserveA" DECIMAL(78,0) NOT NULL,
+    "openReserveB" DECIMAL(78,0) NOT NULL,
+    "closeReserveA" DECIMAL(78,0) NOT NULL,
+    "closeReserveB" DECIMAL(78,0) NOT NULL,
+    "volumeA" DECIMAL(78,0) NOT NULL,
+    "volumeB" DECIMAL(78,0) NOT NULL,
+    "feesA" DECIMAL(78,0) NOT NULL,
+    "feesB" DECIMAL(78,0) NOT NULL,
+    "swapCount" INTEGER NOT NULL,
+    "lpCount" INTEGER NOT NULL,
+
+    CONSTRAINT "PoolDayData_pkey" PRIMARY KEY ("poolId","periodStart")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TokenDayData" (
+    "tokenId" INTEGER NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "openReserve" DECIMAL(78,0) NOT NULL,
+    "closeReserve" DECIMAL(78,0) NOT NULL,
+    "volume" DECIMAL(78,0) NOT NULL,
+    "fees" DECIMAL(78,0) NOT NULL,
+    "swapCount" INTEGER NOT NULL,
+    "lpCount" INTEGER NOT NULL,
+
+    CONSTRAINT "TokenDayData_pkey" PRIMARY KEY ("tokenId","periodStart")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."PoolHourData" ADD CONSTRAINT "PoolHourData_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PoolDayData" ADD CONSTRAINT "PoolDayData_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TokenDayData" ADD CONSTRAINT "TokenDayData_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- The indexer only fills the periods it writes to, run `npm run rollups:rebuild`
+-- once to compute them for the history indexed before this migration
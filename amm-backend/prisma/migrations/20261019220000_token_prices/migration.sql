@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "public"."TokenPrice" (
+    "tokenId" INTEGER NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "price" DECIMAL(78,30) NOT NULL,
+    "depth" DECIMAL(78,30),
+
+    CONSTRAINT "TokenPrice_pkey" PRIMARY KEY ("tokenId","periodStart")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."TokenPrice" ADD CONSTRAINT "TokenPrice_tokenId_fkey" FOREIGN KEY ("tokenId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
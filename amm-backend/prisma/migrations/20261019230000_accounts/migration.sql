@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "public"."Swap" ADD COLUMN     "txOrigin" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Account" (
+    "chainId" INTEGER NOT NULL,
+    "address" TEXT NOT NULL,
+    "firstBlock" INTEGER NOT NULL,
+    "lastBlock" INTEGER NOT NULL,
+    "swapCount" INTEGER NOT NULL,
+    "volume" DECIMAL(78,30) NOT NULL,
+    "poolCount" INTEGER NOT NULL,
+    "positionCount" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Account_pkey" PRIMARY KEY ("chainId","address")
+);
+
+-- CreateIndex
+CREATE INDEX "Swap_txOrigin_idx" ON "public"."Swap"("txOrigin");
+
+-- CreateIndex
+CREATE INDEX "Liquidity_txOrigin_idx" ON "public"."Liquidity"("txOrigin");
+
+-- CreateIndex
+CREATE INDEX "LpTransfer_from_idx" ON "public"."LpTransfer"("from");
+
+-- CreateIndex
+CREATE INDEX "LpTransfer_to_idx" ON "public"."LpTransfer"("to");
+
+-- CreateIndex
+CREATE INDEX "Account_chainId_volume_idx" ON "public"."Account"("chainId", "volume");
+
+-- CreateIndex
+CREATE INDEX "Account_chainId_swapCount_idx" ON "public"."Account"("chainId", "swapCount");
+
+-- Existing swaps keep a null txOrigin and count for their trader until a replay records
+-- it; run `npm run rollups:rebuild` once to compute the accounts of the indexed history
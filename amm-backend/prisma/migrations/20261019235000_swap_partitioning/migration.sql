@@ -0,0 +1,124 @@
+-- Swap becomes a table partitioned by month of "timestamp", with one partition per month
+-- named "Swap_<yyyy>_<mm>" and a default partition for rows no month partition covers.
+-- The indexer creates the partitions of the coming months and archives old ones, see
+-- retention.ts. Keys of a partitioned table must include the partition key, so the
+-- primary key and the position key gain "timestamp". Prisma does not model partitioning:
+-- a migration diffed by prisma migrate would only see the table.
+
+-- the existing table and its constraints move out of the way
+ALTER TABLE "public"."Swap" RENAME TO "Swap_old";
+ALTER TABLE "public"."Swap_old" RENAME CONSTRAINT "Swap_pkey" TO "Swap_old_pkey";
+ALTER TABLE "public"."Swap_old" DROP CONSTRAINT "Swap_poolId_fkey";
+ALTER TABLE "public"."Swap_old" DROP CONSTRAINT "Swap_tokenInId_fkey";
+ALTER TABLE "public"."Swap_old" DROP CONSTRAINT "Swap_tokenOutId_fkey";
+DROP INDEX "public"."Swap_chainId_txHash_logIndex_key";
+DROP INDEX "public"."Swap_txOrigin_idx";
+ALTER SEQUENCE "public"."Swap_id_seq" OWNED BY NONE;
+
+-- CreateTable
+CREATE TABLE "public"."Swap" (
+    "id" INTEGER NOT NULL DEFAULT nextval('"public"."Swap_id_seq"'),
+    "chainId" INTEGER NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "trader" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "amountIn" DECIMAL(78,0) NOT NULL,
+    "amountOut" DECIMAL(78,0) NOT NULL,
+    "tokenInId" INTEGER NOT NULL,
+    "tokenOutId" INTEGER NOT NULL,
+    "txOrigin" TEXT,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Swap_pkey" PRIMARY KEY ("id","timestamp")
+) PARTITION BY RANGE ("timestamp");
+
+ALTER SEQUENCE "public"."Swap_id_seq" OWNED BY "public"."Swap"."id";
+
+-- month partitions from the oldest swap to three months ahead
+DO $$
+DECLARE
+    period TIMESTAMP(3);
+BEGIN
+    SELECT date_trunc('month', COALESCE(MIN("timestamp"), now() AT TIME ZONE 'UTC')) INTO period
+    FROM "public"."Swap_old";
+    WHILE period <= date_trunc('month', now() AT TIME ZONE 'UTC') + interval '3 months' LOOP
+        EXECUTE format(
+            'CREATE TABLE "public".%I PARTITION OF "public"."Swap" FOR VALUES FROM (%L) TO (%L)',
+            'Swap_' || to_char(period, 'YYYY_MM'), period, period + interval '1 month'
+        );
+        period := period + interval '1 month';
+    END LOOP;
+END $$;
+
+CREATE TABLE "public"."Swap_default" PARTITION OF "public"."Swap" DEFAULT;
+
+INSERT INTO "public"."Swap" (
+    "id", "chainId", "poolId", "trader", "recipient", "amountIn", "amountOut", "tokenInId",
+    "tokenOutId", "txOrigin", "txHash", "blockNumber", "logIndex", "timestamp", "createdAt"
+)
+SELECT "id", "chainId", "poolId", "trader", "recipient", "amountIn", "amountOut", "tokenInId",
+    "tokenOutId", "txOrigin", "txHash", "blockNumber", "logIndex", "timestamp", "createdAt"
+FROM "public"."Swap_old";
+
+DROP TABLE "public"."Swap_old";
+
+-- CreateTable
+CREATE TABLE "public"."SwapArchive" (
+    "id" INTEGER NOT NULL,
+    "chainId" INTEGER NOT NULL,
+    "poolId" INTEGER NOT NULL,
+    "trader" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "amountIn" DECIMAL(78,0) NOT NULL,
+    "amountOut" DECIMAL(78,0) NOT NULL,
+    "tokenInId" INTEGER NOT NULL,
+    "tokenOutId" INTEGER NOT NULL,
+    "txOrigin" TEXT,
+    "txHash" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "logIndex" INTEGER NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SwapArchive_pkey" PRIMARY KEY ("id","timestamp")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Swap_chainId_txHash_logIndex_timestamp_key" ON "public"."Swap"("chainId", "txHash", "logIndex", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "Swap_txOrigin_idx" ON "public"."Swap"("txOrigin");
+
+-- CreateIndex
+CREATE INDEX "Swap_poolId_timestamp_idx" ON "public"."Swap"("poolId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "Swap_chainId_tokenInId_tokenOutId_timestamp_idx" ON "public"."Swap"("chainId", "tokenInId", "tokenOutId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "Swap_chainId_trader_idx" ON "public"."Swap"("chainId", "trader");
+
+-- CreateIndex
+CREATE INDEX "Swap_createdAt_idx" ON "public"."Swap"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "SwapArchive_chainId_timestamp_idx" ON "public"."SwapArchive"("chainId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "SwapArchive_txOrigin_idx" ON "public"."SwapArchive"("txOrigin");
+
+-- CreateIndex
+CREATE INDEX "SwapArchive_trader_idx" ON "public"."SwapArchive"("trader");
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_poolId_fkey" FOREIGN KEY ("poolId") REFERENCES "public"."Pool"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_tokenInId_fkey" FOREIGN KEY ("tokenInId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Swap" ADD CONSTRAINT "Swap_tokenOutId_fkey" FOREIGN KEY ("tokenOutId") REFERENCES "public"."Token"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
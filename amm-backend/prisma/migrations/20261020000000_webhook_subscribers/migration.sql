@@ -0,0 +1,6 @@
+-- AlterTable: subscriptions made before API keys belong to no key until one is assigned
+ALTER TABLE "public"."WebhookSubscription" ADD COLUMN "subscriber" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "public"."WebhookSubscription" ALTER COLUMN "subscriber" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "WebhookSubscription_subscriber_idx" ON "public"."WebhookSubscription"("subscriber");
@@ -0,0 +1,2 @@
+-- CreateIndex: the rollups count archived swaps of their hours too
+CREATE INDEX "SwapArchive_poolId_timestamp_idx" ON "public"."SwapArchive"("poolId", "timestamp");
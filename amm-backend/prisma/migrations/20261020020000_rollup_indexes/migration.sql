@@ -0,0 +1,5 @@
+-- CreateIndex: the rollups read a pool's liquidity events and reserves by time
+CREATE INDEX "Liquidity_poolId_timestamp_idx" ON "public"."Liquidity"("poolId", "timestamp");
+
+-- CreateIndex
+CREATE INDEX "ReserveSnapshot_poolId_timestamp_idx" ON "public"."ReserveSnapshot"("poolId", "timestamp");
@@ -0,0 +1,160 @@
+import { ethers } from "ethers";
+import { Prisma } from "@prisma/client";
+import { prisma, chainId, type Db } from "./clients.js";
+import { getTxOrigin } from "./blocks.js";
+
+import PairABI from "./abi/Pair.json" with { type: "json" };
+
+const pairInterface = new ethers.Interface(PairABI);
+
+// addresses recomputed per statement
+const REFRESH_BATCH_SIZE = 500;
+
+// what an account needs of a swap, retained or archived
+const SWAP_COLUMNS = Prisma.raw(
+  `"id", "chainId", "poolId", "trader", "txOrigin", "amountIn", "amountOut", "tokenInId",
+  "tokenOutId", "blockNumber", "timestamp"`
+);
+
+// recompute the accounts of the addresses from every event they took part in, archived
+// swaps included; an address left without events loses its account. Accounts are upserted
+// in address order within one statement, the price job and the ingest may refresh the
+// same addresses at once
+export const refreshAccounts = async (db: Db, addresses: string[]) => {
+  for (let i = 0; i < addresses.length; i += REFRESH_BATCH_SIZE) {
+    const batch = Prisma.join(addresses.slice(i, i + REFRESH_BATCH_SIZE));
+
+    await db.$executeRaw`
+      WITH "refreshed" AS (
+        INSERT INTO "Account" (
+          "chainId", "address", "firstBlock", "lastBlock", "swapCount", "volume",
+          "poolCount", "positionCount", "updatedAt"
+        )
+        SELECT ${chainId}, a."address", MIN(a."blockNumber"), MAX(a."blockNumber"),
+          COUNT(a."swapId")::int, COALESCE(SUM(a."value"), 0), COUNT(DISTINCT a."poolId")::int,
+          (
+            SELECT COUNT(*) FROM "LpPosition" h
+            JOIN "Pool" p ON p."id" = h."poolId"
+            WHERE h."holder" = a."address" AND h."balance" <> '0' AND p."chainId" = ${chainId}
+          )::int,
+          now()
+        FROM (
+          -- a swap is worth its input amount, or its output when the input token has no price
+          SELECT COALESCE(s."txOrigin", s."trader") AS "address", s."poolId", s."blockNumber",
+            s."id" AS "swapId",
+            COALESCE(
+              s."amountIn" / power(10::numeric, ti."decimals") * (
+                SELECT tp."price" FROM "TokenPrice" tp
+                WHERE tp."tokenId" = s."tokenInId" AND tp."periodStart" <= date_trunc('hour', s."timestamp")
+                ORDER BY tp."periodStart" DESC
+                LIMIT 1
+              ),
+              s."amountOut" / power(10::numeric, tt."decimals") * (
+                SELECT tp."price" FROM "TokenPrice" tp
+                WHERE tp."tokenId" = s."tokenOutId" AND tp."periodStart" <= date_trunc('hour', s."timestamp")
+                ORDER BY tp."periodStart" DESC
+                LIMIT 1
+              )
+            ) AS "value"
+          FROM (
+            SELECT ${SWAP_COLUMNS} FROM "Swap"
+            UNION ALL
+            SELECT ${SWAP_COLUMNS} FROM "SwapArchive"
+          ) AS s
+          JOIN "Token" ti ON ti."id" = s."tokenInId"
+          JOIN "Token" tt ON tt."id" = s."tokenOutId"
+          WHERE s."chainId" = ${chainId}
+            AND (s."txOrigin" IN (${batch}) OR (s."txOrigin" IS NULL AND s."trader" IN (${batch})))
+          UNION ALL
+          SELECT l."txOrigin", l."poolId", l."blockNumber", NULL, NULL
+          FROM "Liquidity" l
+          WHERE l."chainId" = ${chainId} AND l."txOrigin" IN (${batch})
+          UNION ALL
+          SELECT t."to", t."poolId", t."blockNumber", NULL, NULL
+          FROM "LpTransfer" t
+          JOIN "Pool" p ON p."id" = t."poolId"
+          WHERE p."chainId" = ${chainId} AND t."to" IN (${batch})
+          UNION ALL
+          SELECT t."from", t."poolId", t."blockNumber", NULL, NULL
+          FROM "LpTransfer" t
+          JOIN "Pool" p ON p."id" = t."poolId"
+          WHERE p."chainId" = ${chainId} AND t."from" IN (${batch})
+        ) AS a
+        GROUP BY a."address"
+        ORDER BY a."address"
+        ON CONFLICT ("chainId", "address") DO UPDATE SET
+          "firstBlock" = EXCLUDED."firstBlock", "lastBlock" = EXCLUDED."lastBlock",
+          "swapCount" = EXCLUDED."swapCount", "volume" = EXCLUDED."volume",
+          "poolCount" = EXCLUDED."poolCount", "positionCount" = EXCLUDED."positionCount",
+          "updatedAt" = EXCLUDED."updatedAt"
+        RETURNING "address"
+      )
+      DELETE FROM "Account"
+      WHERE "chainId" = ${chainId} AND "address" IN (${batch})
+        AND "address" NOT IN (SELECT "address" FROM "refreshed")
+    `;
+  }
+};
+
+// the senders of a batch's swaps and liquidity changes and the holders its LP transfers
+// moved, without the zero address and the pair itself
+export const refreshLogAccounts = async (db: Db, logs: ethers.Log[]) => {
+  const addresses = new Set<string>();
+  for (const log of logs) {
+    const parsed = pairInterface.parseLog(log);
+    if (!parsed) continue;
+
+    if (parsed.name === "Transfer") {
+      for (const address of [parsed.args[0], parsed.args[1]]) {
+        if (address !== ethers.ZeroAddress && address !== log.address) {
+          addresses.add(address);
+        }
+      }
+    } else if (parsed.name !== "Sync") {
+      addresses.add(await getTxOrigin(log.transactionHash));
+    }
+  }
+
+  await refreshAccounts(db, [...addresses]);
+};
+
+// traders of an hour, whose volume moves once the hour is priced
+export const refreshHourTraders = async (db: Db, periodStart: Date) => {
+  const end = new Date(periodStart.getTime() + 3600_000);
+  const traders = await db.$queryRaw<{ address: string }[]>`
+    SELECT DISTINCT COALESCE("txOrigin", "trader") AS "address" FROM "Swap"
+    WHERE "chainId" = ${chainId} AND "timestamp" >= ${periodStart} AND "timestamp" < ${end}
+  `;
+  await refreshAccounts(
+    db,
+    traders.map((trader) => trader.address)
+  );
+};
+
+// recompute the account of every address of the chain
+export const rebuildAccounts = async () => {
+  const rows = await prisma.$queryRaw<{ address: string }[]>`
+    SELECT COALESCE("txOrigin", "trader") AS "address" FROM "Swap" WHERE "chainId" = ${chainId}
+    UNION
+    SELECT COALESCE("txOrigin", "trader") FROM "SwapArchive" WHERE "chainId" = ${chainId}
+    UNION
+    SELECT "txOrigin" FROM "Liquidity" WHERE "chainId" = ${chainId}
+    UNION
+    SELECT t."to" FROM "LpTransfer" t JOIN "Pool" p ON p."id" = t."poolId"
+    WHERE p."chainId" = ${chainId} AND t."to" <> p."address"
+    UNION
+    SELECT t."from" FROM "LpTransfer" t JOIN "Pool" p ON p."id" = t."poolId"
+    WHERE p."chainId" = ${chainId} AND t."from" <> p."address"
+  `;
+  const addresses = rows
+    .map((row) => row.address)
+    .filter((address) => address !== ethers.ZeroAddress);
+
+  await prisma.account.deleteMany({ where: { chainId } });
+  for (let i = 0; i < addresses.length; i += REFRESH_BATCH_SIZE) {
+    await prisma.$transaction((tx) =>
+      refreshAccounts(tx, addresses.slice(i, i + REFRESH_BATCH_SIZE))
+    );
+  }
+  console.log(`Rebuilt ${addresses.length} accounts`);
+};
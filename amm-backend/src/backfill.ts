@@ -0,0 +1,204 @@
+import { ethers } from "ethers";
+import { prisma, provider, factory, chainId } from "./clients.js";
+import {
+  PAIR_CREATED_TOPIC,
+  PAIR_TOPICS,
+  factoryInterface,
+  decodePairCreated,
+  type PairCreated,
+} from "./handlers.js";
+import {
+  FACTORY_STREAM,
+  PAIR_STREAM,
+  type Checkpoints,
+} from "./checkpoints.js";
+import { byPosition, writeBatch } from "./writer.js";
+
+// largest number of blocks requested per eth_getLogs call
+export const MAX_CHUNK_SIZE = Number(process.env.BACKFILL_CHUNK_SIZE ?? 2000);
+
+// current range, halved when the RPC refuses a response as too large and grown back after
+let chunkSize = MAX_CHUNK_SIZE;
+
+// providers word this differently, -32005 is the common "limit exceeded" code
+const RANGE_ERRORS =
+  /response size|too large|too many|more than \d+ results|limit exceeded|block range/i;
+
+// ethers keeps the JSON-RPC error of a failed request in `error`
+type RpcError = {
+  message?: unknown;
+  error?: { code?: unknown; message?: unknown };
+};
+
+export const isRangeTooLarge = (err: unknown) => {
+  if (typeof err !== "object" || err === null) return false;
+
+  const { error, message } = err as RpcError;
+  const text = [error?.message, message].find(
+    (value) => typeof value === "string"
+  );
+  return error?.code === -32005 || RANGE_ERRORS.test(text ?? "");
+};
+
+// true when the stream already committed the block this log belongs to
+const isCommitted = (
+  checkpoints: Checkpoints,
+  log: ethers.Log,
+  stream: string
+) => {
+  const checkpoint = checkpoints.get(log.address, stream);
+  return checkpoint !== undefined && log.blockNumber <= checkpoint;
+};
+
+// factory and pair logs of one range, pools created in it are queried for their own logs
+const fetchLogs = async (
+  factoryAddress: string,
+  pools: string[],
+  fromBlock: number,
+  toBlock: number
+) => {
+  const pairCreatedLogs = await provider.getLogs({
+    address: factoryAddress,
+    topics: [PAIR_CREATED_TOPIC],
+    fromBlock,
+    toBlock,
+  });
+
+  const newPools = pairCreatedLogs.map(
+    (log) => factoryInterface.parseLog(log)!.args.pair as string
+  );
+  const addresses = [...new Set([...pools, ...newPools])];
+
+  const pairLogs =
+    addresses.length === 0
+      ? []
+      : await provider.getLogs({
+          address: addresses,
+          topics: [PAIR_TOPICS],
+          fromBlock,
+          toBlock,
+        });
+
+  return { pairCreatedLogs, pairLogs };
+};
+
+// fetch the chunk starting at `start`, halving the range while the RPC refuses it as too large
+const fetchChunk = async <T>(
+  start: number,
+  toBlock: number,
+  fetch: (fromBlock: number, toBlock: number) => Promise<T>
+) => {
+  for (;;) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    try {
+      return { end, logs: await fetch(start, end) };
+    } catch (err) {
+      if (!isRangeTooLarge(err) || chunkSize === 1) throw err;
+      chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+      console.warn(
+        `getLogs range too large, retrying with ${chunkSize} blocks`
+      );
+    }
+  }
+};
+
+// grow the range back after a chunk the RPC accepted
+const growChunk = () => {
+  chunkSize = Math.min(MAX_CHUNK_SIZE, Math.ceil(chunkSize * 1.25));
+};
+
+// walk [fromBlock, toBlock] in chunks and ingest factory + pair logs
+export const backfill = async (
+  fromBlock: number,
+  toBlock: number,
+  checkpoints: Checkpoints,
+  onPairCreated?: (pair: string) => void
+) => {
+  const factoryAddress = await factory.getAddress();
+  const pools = (
+    await prisma.pool.findMany({
+      where: { chainId },
+      select: { address: true },
+    })
+  ).map((pool) => pool.address);
+
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const { end, logs } = await fetchChunk(start, toBlock, (from, to) =>
+      fetchLogs(factoryAddress, pools, from, to)
+    );
+
+    const created: PairCreated[] = [];
+    for (const log of logs.pairCreatedLogs.sort(byPosition)) {
+      if (isCommitted(checkpoints, log, FACTORY_STREAM)) continue;
+      created.push(await decodePairCreated(log));
+    }
+    for (const { pair } of created) {
+      if (!pools.includes(pair)) pools.push(pair);
+    }
+
+    const pairLogs = logs.pairLogs.filter(
+      (log) => !isCommitted(checkpoints, log, PAIR_STREAM)
+    );
+
+    // rows and checkpoints of the chunk commit together
+    await writeBatch(created, pairLogs, [
+      { address: factoryAddress, stream: FACTORY_STREAM, blockNumber: end },
+      ...pools.map((pool) => ({
+        address: pool,
+        stream: PAIR_STREAM,
+        blockNumber: end,
+      })),
+    ]);
+
+    for (const { pair } of created) {
+      onPairCreated?.(pair);
+    }
+
+    if (created.length > 0 || pairLogs.length > 0) {
+      console.log(
+        `Indexed blocks ${start}-${end} (${created.length} pools, ${pairLogs.length} pair events)`
+      );
+    }
+
+    start = end + 1;
+    growChunk();
+  }
+};
+
+// one pool's logs of [fromBlock, toBlock], for a pool whose live listener started after
+// blocks that hold its first events
+export const backfillPair = async (
+  pair: string,
+  fromBlock: number,
+  toBlock: number,
+  checkpoints: Checkpoints
+) => {
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const { end, logs } = await fetchChunk(start, toBlock, (from, to) =>
+      provider.getLogs({
+        address: pair,
+        topics: [PAIR_TOPICS],
+        fromBlock: from,
+        toBlock: to,
+      })
+    );
+
+    const pairLogs = logs.filter(
+      (log) => !isCommitted(checkpoints, log, PAIR_STREAM)
+    );
+    await writeBatch([], pairLogs, [
+      { address: pair, stream: PAIR_STREAM, blockNumber: end },
+    ]);
+
+    if (pairLogs.length > 0) {
+      console.log(
+        `Indexed blocks ${start}-${end} of pair ${pair} (${pairLogs.length} pair events)`
+      );
+    }
+
+    start = end + 1;
+    growChunk();
+  }
+};
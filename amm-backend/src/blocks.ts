@@ -0,0 +1,42 @@
+import { provider } from "./clients.js";
+
+// recent chain lookups, logs of one block or transaction share a single request
+const MAX_CACHE_SIZE = 10_000;
+const timestamps = new Map<number, Date>();
+
+export const getBlockTimestamp = async (blockNumber: number) => {
+  const cached = timestamps.get(blockNumber);
+  if (cached) return cached;
+
+  const block = (await provider.getBlock(blockNumber))!;
+  const timestamp = new Date(block.timestamp * 1000);
+
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (timestamps.size >= MAX_CACHE_SIZE) {
+    timestamps.delete(timestamps.keys().next().value!);
+  }
+  timestamps.set(blockNumber, timestamp);
+  return timestamp;
+};
+
+// blocks above a fork are replaced by the canonical chain, with their own timestamps
+export const evictBlocksAfter = (blockNumber: number) => {
+  for (const number of timestamps.keys()) {
+    if (number > blockNumber) timestamps.delete(number);
+  }
+};
+
+// sender of the transaction that emitted a log
+const origins = new Map<string, string>();
+
+export const getTxOrigin = async (txHash: string) => {
+  const cached = origins.get(txHash);
+  if (cached) return cached;
+
+  const tx = (await provider.getTransaction(txHash))!;
+  if (origins.size >= MAX_CACHE_SIZE) {
+    origins.delete(origins.keys().next().value!);
+  }
+  origins.set(txHash, tx.from);
+  return tx.from;
+};
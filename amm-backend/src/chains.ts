@@ -0,0 +1,84 @@
+import fs from "node:fs";
+
+export type ChainConfig = {
+  chainId: number;
+  name: string;
+  // endpoints in priority order
+  rpcUrls: string[];
+  factory: string;
+  // only the API server needs it, for quotes
+  router?: string;
+  // first block indexed for streams without a checkpoint; required once the chain has pools
+  // and a stream lacks one
+  startBlock?: number;
+  // fee the pairs take from a swap's input amount, 30 (0.3%) when unset
+  swapFeeBps?: number;
+  // token prices are quoted in, a USD stablecoin such as TUSDC; no prices without it
+  numeraire?: string;
+};
+
+// chain used for rows indexed before chains were configured, and by the env fallback
+const DEFAULT_CHAIN_ID = 31337;
+
+// an indexer whose configuration cannot work exits with this code (sysexits' EX_CONFIG),
+// the runner does not restart it since it would fail the same way
+export const CONFIG_ERROR_EXIT_CODE = 78;
+
+export class ConfigError extends Error {}
+
+const splitUrls = (urls: string) =>
+  urls
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+// the single chain of the older RPC_URL(S) / FACTORY_ADDRESS / ROUTER_ADDRESS setup
+const chainFromEnv = (): ChainConfig => ({
+  chainId: Number(process.env.CHAIN_ID ?? DEFAULT_CHAIN_ID),
+  name: process.env.CHAIN_NAME ?? "default",
+  rpcUrls: splitUrls(process.env.RPC_URLS ?? process.env.RPC_URL ?? ""),
+  factory: process.env.FACTORY_ADDRESS!,
+  router: process.env.ROUTER_ADDRESS,
+  startBlock: process.env.START_BLOCK
+    ? Number(process.env.START_BLOCK)
+    : undefined,
+  swapFeeBps: process.env.SWAP_FEE_BPS
+    ? Number(process.env.SWAP_FEE_BPS)
+    : undefined,
+  numeraire: process.env.NUMERAIRE_ADDRESS,
+});
+
+// CHAINS_FILE (chains.json by default) lists every chain, see chains.example.json;
+// without it the environment describes a single chain
+export const loadChains = (): ChainConfig[] => {
+  const file = process.env.CHAINS_FILE ?? "chains.json";
+  if (!fs.existsSync(file)) return [chainFromEnv()];
+
+  let chains: ChainConfig[];
+  try {
+    chains = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (err) {
+    throw new ConfigError(
+      `Cannot read ${file}: ${err instanceof Error ? err.message : err}`
+    );
+  }
+  if (chains.length === 0) {
+    throw new ConfigError(`No chains configured in ${file}`);
+  }
+  return chains;
+};
+
+// the chain of an indexer process, picked by CHAIN_ID when several are configured
+export const selectChain = () => {
+  const chains = loadChains();
+  if (!process.env.CHAIN_ID && chains.length === 1) return chains[0];
+
+  const chainId = Number(process.env.CHAIN_ID);
+  const chain = chains.find((c) => c.chainId === chainId);
+  if (!chain) {
+    throw new ConfigError(
+      `Set CHAIN_ID to one of ${chains.map((c) => c.chainId).join(", ")}`
+    );
+  }
+  return chain;
+};
@@ -0,0 +1,40 @@
+import { prisma, chainId, type Db } from "./clients.js";
+
+// event streams a checkpoint can track
+export const FACTORY_STREAM = "factory"; // PairCreated
+export const PAIR_STREAM = "pair"; // Swap, Mint, Burn, Sync, Transfer
+
+const key = (address: string, stream: string) =>
+  `${address.toLowerCase()}:${stream}`;
+
+// last committed block per (address, stream) of this chain
+export const loadCheckpoints = async () => {
+  const rows = await prisma.checkpoint.findMany({ where: { chainId } });
+  const checkpoints = new Map<string, number>();
+  for (const row of rows) {
+    checkpoints.set(key(row.address, row.stream), row.blockNumber);
+  }
+
+  return {
+    get: (address: string, stream: string) =>
+      checkpoints.get(key(address, stream)),
+  };
+};
+
+export type Checkpoints = Awaited<ReturnType<typeof loadCheckpoints>>;
+
+// move a checkpoint forward, call inside the transaction that wrote the rows
+export const saveCheckpoint = async (
+  db: Db,
+  address: string,
+  stream: string,
+  blockNumber: number
+) => {
+  await db.$executeRaw`
+    INSERT INTO "Checkpoint" ("chainId", "address", "stream", "blockNumber", "updatedAt")
+    VALUES (${chainId}, ${address.toLowerCase()}, ${stream}, ${blockNumber}, NOW())
+    ON CONFLICT ("chainId", "address", "stream") DO UPDATE
+    SET "blockNumber" = GREATEST("Checkpoint"."blockNumber", EXCLUDED."blockNumber"),
+        "updatedAt" = NOW()
+  `;
+};
@@ -0,0 +1,31 @@
+import { ethers } from "ethers";
+import { Prisma, PrismaClient } from "@prisma/client";
+import dotenv from "dotenv";
+dotenv.config();
+
+import { FailoverProvider } from "./rpc.js";
+import { CONFIG_ERROR_EXIT_CODE, ConfigError, selectChain } from "./chains.js";
+import FactoryABI from "./abi/Factory.json" with { type: "json" };
+
+// Shared clients for the indexer modules
+export const prisma = new PrismaClient();
+export type Db = Prisma.TransactionClient;
+
+// an indexer process serves one chain, every row it writes carries its id
+const selectConfiguredChain = () => {
+  try {
+    return selectChain();
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err;
+    console.error(err.message);
+    process.exit(CONFIG_ERROR_EXIT_CODE);
+  }
+};
+
+export const chain = selectConfiguredChain();
+export const chainId = chain.chainId;
+
+export const provider = new FailoverProvider(chain.rpcUrls);
+provider.startHealthChecks();
+
+export const factory = new ethers.Contract(chain.factory, FactoryABI, provider);
@@ -0,0 +1,203 @@
+import { ethers } from "ethers";
+import { prisma, provider, chainId } from "./clients.js";
+import { PAIR_STREAM, loadCheckpoints } from "./checkpoints.js";
+
+import PairABI from "./abi/Pair.json" with { type: "json" };
+
+// how often the indexer samples pools, and how many per run
+const VERIFY_INTERVAL = Number(process.env.VERIFY_INTERVAL_MS ?? 3600_000);
+const VERIFY_SAMPLE_SIZE = Number(process.env.VERIFY_SAMPLE_SIZE ?? 20);
+// relative drift above which the job logs an error
+const VERIFY_THRESHOLD = Number(process.env.VERIFY_THRESHOLD ?? 0);
+
+export type VerifyOptions = {
+  // pool addresses to check, every pool when empty
+  pools?: string[];
+  // check a random subset of this many pools
+  sample?: number;
+  // blocks checked per pool, counting back from its checkpoint
+  blocks: number;
+  // distance between checked blocks
+  step: number;
+};
+
+export type PoolDrift = {
+  pool: string;
+  // checked block with the largest drift, the latest one when all agree
+  block: number;
+  onChain: [bigint, bigint];
+  indexed: [bigint, bigint];
+  // largest relative difference of the two reserves, 0 when they agree
+  drift: number;
+  // first block of the checked window whose indexed reserves disagree with the chain
+  firstDivergentBlock: number | null;
+};
+
+export type VerifyReport = {
+  drifts: PoolDrift[];
+  // pools without a checkpoint, nothing of theirs is indexed to compare yet
+  skipped: string[];
+  // requested addresses that are no pool of the chain
+  unknown: string[];
+};
+
+type Reserves = [bigint, bigint];
+
+const chainReserves = async (pair: ethers.Contract, blockTag: number) => {
+  const [reserve0, reserve1] = await pair.getReserves({ blockTag });
+  return [reserve0, reserve1] as Reserves;
+};
+
+// reserves of the last Sync at or before the block
+const indexedReserves = async (poolId: number, blockNumber: number) => {
+  const snapshot = await prisma.reserveSnapshot.findFirst({
+    where: { poolId, blockNumber: { lte: blockNumber } },
+    orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+  });
+  return [
+    BigInt(snapshot?.reserveA ?? 0),
+    BigInt(snapshot?.reserveB ?? 0),
+  ] as Reserves;
+};
+
+const relativeDiff = (expected: bigint, actual: bigint) => {
+  if (expected === actual) return 0;
+  const diff = expected > actual ? expected - actual : actual - expected;
+  const base = expected > 0n ? expected : actual;
+  return Number((diff * 1_000_000n) / base) / 1_000_000;
+};
+
+const diverges = (onChain: Reserves, indexed: Reserves) =>
+  onChain[0] !== indexed[0] || onChain[1] !== indexed[1];
+
+const driftOf = (onChain: Reserves, indexed: Reserves) =>
+  Math.max(
+    relativeDiff(onChain[0], indexed[0]),
+    relativeDiff(onChain[1], indexed[1])
+  );
+
+// narrow (good, bad] down to the first block whose reserves disagree
+const bisect = async (
+  pair: ethers.Contract,
+  poolId: number,
+  good: number,
+  bad: number
+) => {
+  while (bad - good > 1) {
+    const middle = Math.floor((good + bad) / 2);
+    const [onChain, indexed] = await Promise.all([
+      chainReserves(pair, middle),
+      indexedReserves(poolId, middle),
+    ]);
+    if (diverges(onChain, indexed)) bad = middle;
+    else good = middle;
+  }
+  return bad;
+};
+
+const verifyPool = async (
+  pool: { id: number; address: string },
+  lastBlock: number,
+  options: VerifyOptions
+): Promise<PoolDrift> => {
+  const pair = new ethers.Contract(pool.address, PairABI, provider);
+
+  // oldest first, so the first disagreement bounds the search for the divergent block
+  const blocks = Array.from(
+    { length: options.blocks },
+    (_, i) => lastBlock - (options.blocks - 1 - i) * options.step
+  ).filter((block) => block >= 0);
+
+  let worst: Omit<PoolDrift, "firstDivergentBlock"> | undefined;
+  let firstDivergentBlock: number | null = null;
+  let lastGood: number | undefined;
+
+  for (const block of blocks) {
+    const [onChain, indexed] = await Promise.all([
+      chainReserves(pair, block),
+      indexedReserves(pool.id, block),
+    ]);
+    const drift = driftOf(onChain, indexed);
+    if (!worst || drift >= worst.drift) {
+      worst = { pool: pool.address, block, onChain, indexed, drift };
+    }
+
+    if (!diverges(onChain, indexed)) {
+      lastGood = block;
+    } else if (firstDivergentBlock === null) {
+      firstDivergentBlock =
+        lastGood === undefined
+          ? block
+          : await bisect(pair, pool.id, lastGood, block);
+    }
+  }
+
+  return { ...worst!, firstDivergentBlock };
+};
+
+// compare on-chain getReserves() with the indexed Sync reserves, up to each pool's checkpoint
+export const verifyReserves = async (
+  options: VerifyOptions
+): Promise<VerifyReport> => {
+  let pools = await prisma.pool.findMany({
+    where: options.pools?.length
+      ? { chainId, address: { in: options.pools } }
+      : { chainId },
+    select: { id: true, address: true },
+  });
+  const stored = new Set(pools.map((pool) => pool.address));
+  const unknown = (options.pools ?? []).filter(
+    (address) => !stored.has(address)
+  );
+
+  if (options.sample !== undefined && options.sample < pools.length) {
+    pools = pools.sort(() => Math.random() - 0.5).slice(0, options.sample);
+  }
+
+  const checkpoints = await loadCheckpoints();
+  const head = await provider.getBlockNumber();
+
+  const drifts: PoolDrift[] = [];
+  const skipped: string[] = [];
+  for (const pool of pools) {
+    const checkpoint = checkpoints.get(pool.address, PAIR_STREAM);
+    if (checkpoint === undefined) {
+      skipped.push(pool.address);
+      continue;
+    }
+    drifts.push(await verifyPool(pool, Math.min(checkpoint, head), options));
+  }
+  return { drifts, skipped, unknown };
+};
+
+export const formatDrift = (drift: PoolDrift) =>
+  `${drift.pool} at block ${drift.block}: chain ${drift.onChain.join("/")}, indexed ${drift.indexed.join("/")}, drift ${(drift.drift * 100).toFixed(4)}%` +
+  (drift.firstDivergentBlock !== null
+    ? `, first divergent block ${drift.firstDivergentBlock}`
+    : "");
+
+// sampled in the background of the indexer, drift is only reported
+export const startReserveVerification = () => {
+  setInterval(async () => {
+    try {
+      const { drifts, skipped } = await verifyReserves({
+        sample: VERIFY_SAMPLE_SIZE,
+        blocks: 3,
+        step: 10,
+      });
+      if (skipped.length > 0) {
+        console.warn(
+          `Reserve verification skipped ${skipped.length} pools without a checkpoint`
+        );
+      }
+      for (const drift of drifts) {
+        if (drift.firstDivergentBlock === null) continue;
+        const log =
+          drift.drift > VERIFY_THRESHOLD ? console.error : console.warn;
+        log(`Reserve drift: ${formatDrift(drift)}`);
+      }
+    } catch (err) {
+      console.error("Reserve verification error:", err);
+    }
+  }, VERIFY_INTERVAL).unref();
+};
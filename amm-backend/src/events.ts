@@ -0,0 +1,86 @@
+import pg from "pg";
+import type { Db } from "./clients.js";
+
+// the indexer publishes on this channel, the API server listens
+export const EVENTS_CHANNEL = "amm_events";
+
+// listener reconnect delay after the connection drops
+const RECONNECT_DELAY = 5000;
+
+export type AmmEventType = "swap" | "liquidity" | "reserves" | "pool";
+
+export type AmmEvent = {
+  type: AmmEventType;
+  chainId: number;
+  pool: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: string;
+  data: Record<string, unknown>;
+};
+
+// commands rewriting history turn this off, their rows are not news to subscribers
+let publishing = true;
+
+export const stopPublishing = () => {
+  publishing = false;
+};
+
+// rows behind the API's cached pool and token lists changed outside the event handlers,
+// e.g. by a rollback, a replay or archiving; only clears the caches, feeds do not get it
+export type CacheInvalidation = { type: "invalidate"; chainId: number };
+
+// NOTIFY inside the write transaction is delivered on commit and dropped on rollback
+export const publishEvent = async (db: Db, event: AmmEvent) => {
+  if (!publishing) return;
+  await db.$executeRaw`SELECT pg_notify(${EVENTS_CHANNEL}, ${JSON.stringify(event)})`;
+};
+
+// sent even when publishing is off, the caches must not keep rewritten rows
+export const publishInvalidation = async (db: Db, chainId: number) => {
+  const invalidation: CacheInvalidation = { type: "invalidate", chainId };
+  await db.$executeRaw`SELECT pg_notify(${EVENTS_CHANNEL}, ${JSON.stringify(invalidation)})`;
+};
+
+// LISTEN needs a connection of its own, Prisma's pool cannot hold one; onConnection
+// tells the caller when events may have been missed, i.e. while it was not listening
+export const subscribeEvents = (
+  onEvent: (event: AmmEvent | CacheInvalidation) => void,
+  onConnection: (listening: boolean) => void = () => {}
+) => {
+  const connect = async () => {
+    const client = new pg.Client({
+      connectionString: process.env.DATABASE_URL,
+    });
+
+    const reconnect = (err: unknown) => {
+      console.error("Event listener error:", err);
+      onConnection(false);
+      client.removeAllListeners();
+      client.end().catch(() => {});
+      setTimeout(connect, RECONNECT_DELAY);
+    };
+
+    client.on("notification", (message) => {
+      if (message.channel !== EVENTS_CHANNEL || !message.payload) return;
+      try {
+        onEvent(JSON.parse(message.payload));
+      } catch (err) {
+        console.error("Event handler error:", err);
+      }
+    });
+    client.on("error", reconnect);
+
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${EVENTS_CHANNEL}`);
+      console.log(`Listening for indexer events on ${EVENTS_CHANNEL}`);
+      onConnection(true);
+    } catch (err) {
+      reconnect(err);
+    }
+  };
+
+  connect();
+};
@@ -0,0 +1,415 @@
+import { ethers } from "ethers";
+import type { Prisma } from "@prisma/client";
+import { chainId, type Db } from "./clients.js";
+import { recordLogBlock } from "./reorgs.js";
+import { getBlockTimestamp, getTxOrigin } from "./blocks.js";
+import { applyLpTransfer } from "./positions.js";
+import { cacheIds, getPoolId, getTokenId } from "./ids.js";
+import { resolveTokenMeta, type TokenMeta } from "./tokens.js";
+import { enqueueWebhooks, hasSubscribers } from "./webhooks.js";
+import { publishEvent } from "./events.js";
+
+import FactoryABI from "./abi/Factory.json" with { type: "json" };
+import PairABI from "./abi/Pair.json" with { type: "json" };
+
+export const factoryInterface = new ethers.Interface(FactoryABI);
+export const pairInterface = new ethers.Interface(PairABI);
+
+// topics the indexer cares about, shared by the live listeners and the backfill
+export const PAIR_CREATED_TOPIC =
+  factoryInterface.getEvent("PairCreated")!.topicHash;
+export const PAIR_TOPICS = ["Swap", "Mint", "Burn", "Sync", "Transfer"].map(
+  (name) => pairInterface.getEvent(name)!.topicHash
+);
+
+// PairCreated: decode the log and fetch token metadata, kept out of any transaction
+export const decodePairCreated = async (log: ethers.Log) => {
+  const parsed = factoryInterface.parseLog(log)!;
+  const [tokenA, tokenB, pair] = parsed.args;
+  console.log("New pool:", tokenA, tokenB, pair);
+
+  const [metaA, metaB] = await Promise.all([
+    resolveTokenMeta(tokenA),
+    resolveTokenMeta(tokenB),
+  ]);
+
+  return {
+    pair: pair as string,
+    tokenA: tokenA as string,
+    tokenB: tokenB as string,
+    metaA,
+    metaB,
+    txHash: log.transactionHash,
+    logIndex: log.index,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    timestamp: await getBlockTimestamp(log.blockNumber),
+  };
+};
+
+export type PairCreated = Awaited<ReturnType<typeof decodePairCreated>>;
+
+// placeholders of an unverified read never overwrite a stored token
+export const saveToken = (db: Db, address: string, meta: TokenMeta) => {
+  const data = {
+    symbol: meta.symbol,
+    name: meta.name,
+    decimals: meta.decimals,
+    metadataVerified: meta.verified,
+    metadataCheckedAt: new Date(),
+  };
+  return db.token.upsert({
+    where: { chainId_address: { chainId, address } },
+    update: meta.verified ? data : {},
+    create: { chainId, address, ...data },
+  });
+};
+
+// store both tokens and the pool
+export const handlePairCreated = async (db: Db, created: PairCreated) => {
+  const { pair, tokenA, tokenB, metaA, metaB } = created;
+  const { txHash, logIndex, blockNumber, blockHash, timestamp } = created;
+
+  if (!(await recordLogBlock(db, blockNumber, blockHash))) {
+    console.warn(`Skipping pool ${pair} from orphaned block ${blockNumber}`);
+    return;
+  }
+
+  // Insert tokens if not exist
+  const [tA, tB] = await Promise.all([
+    saveToken(db, tokenA, metaA),
+    saveToken(db, tokenB, metaB),
+  ]);
+
+  // upsert so a backfill over an already indexed range does not fail
+  const pool = await db.pool.upsert({
+    where: { chainId_address: { chainId, address: pair } },
+    update: { blockNumber, timestamp },
+    create: {
+      chainId,
+      address: pair,
+      tokenAId: tA.id,
+      tokenBId: tB.id,
+      blockNumber,
+      timestamp,
+    },
+  });
+
+  cacheIds(
+    [[pair, pool.id]],
+    [
+      [tokenA, tA.id],
+      [tokenB, tB.id],
+    ]
+  );
+
+  await enqueueWebhooks(
+    db,
+    "POOL_CREATED",
+    { txHash, blockNumber, logIndex, timestamp },
+    { pool: pair, tokens: [tokenA, tokenB], amounts: [] },
+    {
+      tokenA: { address: tokenA, symbol: metaA.symbol },
+      tokenB: { address: tokenB, symbol: metaB.symbol },
+      timestamp: timestamp.toISOString(),
+    }
+  );
+
+  await publishEvent(db, {
+    type: "pool",
+    chainId,
+    pool: pair,
+    txHash,
+    blockNumber,
+    logIndex,
+    timestamp: timestamp.toISOString(),
+    data: { tokenA, tokenB, symbolA: metaA.symbol, symbolB: metaB.symbol },
+  });
+};
+
+// event fields of a log for the live feed
+const eventPosition = (
+  log: ethers.Log,
+  meta: Awaited<ReturnType<typeof eventMeta>>
+) => ({
+  chainId,
+  pool: log.address,
+  txHash: meta.txHash,
+  blockNumber: meta.blockNumber,
+  logIndex: meta.logIndex,
+  timestamp: meta.timestamp.toISOString(),
+});
+
+// chain position of a log, the idempotency key of every event row, and its block time
+const eventMeta = async (log: ethers.Log) => ({
+  txHash: log.transactionHash,
+  blockNumber: log.blockNumber,
+  logIndex: log.index,
+  timestamp: await getBlockTimestamp(log.blockNumber),
+});
+
+// Swap(sender, tokenIn, amountIn, tokenOut, amountOut, to)
+const handleSwap = async (db: Db, log: ethers.Log, args: ethers.Result) => {
+  const [sender, tokenIn, amountIn, tokenOut, amountOut, to] = args;
+  console.log("Swap detected in:", log.address);
+
+  const data = {
+    chainId,
+    poolId: await getPoolId(db, log.address),
+    trader: sender,
+    recipient: to,
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    tokenInId: await getTokenId(db, tokenIn),
+    tokenOutId: await getTokenId(db, tokenOut),
+    txOrigin: await getTxOrigin(log.transactionHash),
+    ...(await eventMeta(log)),
+  };
+
+  // upsert so a replayed or re-delivered log rewrites its row instead of duplicating it;
+  // the key includes the block time, the partition key of Swap
+  await db.swap.upsert({
+    where: {
+      chainId_txHash_logIndex_timestamp: {
+        chainId,
+        txHash: data.txHash,
+        logIndex: data.logIndex,
+        timestamp: data.timestamp,
+      },
+    },
+    update: data,
+    create: data,
+  });
+
+  await enqueueWebhooks(
+    db,
+    "SWAP",
+    data,
+    {
+      pool: log.address,
+      tokens: [tokenIn, tokenOut],
+      amounts: [
+        { token: tokenIn, amount: data.amountIn },
+        { token: tokenOut, amount: data.amountOut },
+      ],
+    },
+    {
+      trader: sender,
+      recipient: to,
+      tokenIn,
+      tokenOut,
+      amountIn: data.amountIn,
+      amountOut: data.amountOut,
+      timestamp: data.timestamp.toISOString(),
+    }
+  );
+
+  await publishEvent(db, {
+    type: "swap",
+    ...eventPosition(log, data),
+    data: {
+      trader: sender,
+      tokenIn,
+      tokenOut,
+      amountIn: data.amountIn,
+      amountOut: data.amountOut,
+    },
+  });
+};
+
+// Mint(sender, amount0, amount1, liquidity)
+const handleMint = async (db: Db, log: ethers.Log, args: ethers.Result) => {
+  const [sender, amount0, amount1, liquidity] = args;
+  console.log("Liquidity added in:", log.address);
+
+  await saveLiquidity(db, log, {
+    poolId: await getPoolId(db, log.address),
+    action: "ADD",
+    provider: sender,
+    amountA: amount0.toString(),
+    amountB: amount1.toString(),
+    liquidity: liquidity.toString(),
+    txOrigin: await getTxOrigin(log.transactionHash),
+    ...(await eventMeta(log)),
+  });
+};
+
+// Burn(sender, liquidity, amount0, amount1, to)
+const handleBurn = async (db: Db, log: ethers.Log, args: ethers.Result) => {
+  const [sender, liquidity, amount0, amount1, to] = args;
+  console.log("Liquidity removed in:", log.address);
+
+  await saveLiquidity(db, log, {
+    poolId: await getPoolId(db, log.address),
+    action: "REMOVE",
+    provider: sender,
+    amountA: amount0.toString(),
+    amountB: amount1.toString(),
+    liquidity: liquidity.toString(),
+    recipient: to,
+    txOrigin: await getTxOrigin(log.transactionHash),
+    ...(await eventMeta(log)),
+  });
+};
+
+// amounts as the decimal strings of the log, the form webhooks and the live feed carry them in
+type LiquidityFields = Omit<
+  Prisma.LiquidityUncheckedCreateInput,
+  "chainId" | "amountA" | "amountB"
+> & { amountA: string; amountB: string } & Awaited<
+    ReturnType<typeof eventMeta>
+  >;
+
+const saveLiquidity = async (
+  db: Db,
+  log: ethers.Log,
+  fields: LiquidityFields
+) => {
+  const data = { chainId, ...fields };
+  await db.liquidity.upsert({
+    where: {
+      chainId_txHash_logIndex: {
+        chainId,
+        txHash: data.txHash,
+        logIndex: data.logIndex,
+      },
+    },
+    update: data,
+    create: data,
+  });
+
+  await publishEvent(db, {
+    type: "liquidity",
+    ...eventPosition(log, data),
+    data: {
+      action: data.action,
+      provider: data.provider,
+      amountA: data.amountA,
+      amountB: data.amountB,
+      liquidity: data.liquidity,
+    },
+  });
+
+  // token addresses are only looked up when someone listens
+  if (!(await hasSubscribers(db, "LIQUIDITY"))) return;
+  const pool = (await db.pool.findUnique({
+    where: { id: data.poolId },
+    include: { tokenA: true, tokenB: true },
+  }))!;
+  await enqueueWebhooks(
+    db,
+    "LIQUIDITY",
+    data,
+    {
+      pool: log.address,
+      tokens: [pool.tokenA.address, pool.tokenB.address],
+      amounts: [
+        { token: pool.tokenA.address, amount: data.amountA },
+        { token: pool.tokenB.address, amount: data.amountB },
+      ],
+    },
+    {
+      action: data.action,
+      provider: data.provider,
+      recipient: data.recipient ?? null,
+      tokenA: pool.tokenA.address,
+      tokenB: pool.tokenB.address,
+      amountA: data.amountA,
+      amountB: data.amountB,
+      liquidity: data.liquidity,
+      timestamp: data.timestamp.toISOString(),
+    }
+  );
+};
+
+// Sync (reserves updated)
+const handleSync = async (db: Db, log: ethers.Log, args: ethers.Result) => {
+  const [reserve0, reserve1] = args;
+
+  const data = {
+    poolId: await getPoolId(db, log.address),
+    reserveA: reserve0.toString(),
+    reserveB: reserve1.toString(),
+    ...(await eventMeta(log)),
+  };
+
+  await db.reserveSnapshot.upsert({
+    where: {
+      txHash_logIndex: { txHash: data.txHash, logIndex: data.logIndex },
+    },
+    update: data,
+    create: data,
+  });
+
+  await publishEvent(db, {
+    type: "reserves",
+    ...eventPosition(log, data),
+    data: { reserveA: data.reserveA, reserveB: data.reserveB },
+  });
+};
+
+// Transfer of the pair's own LP token
+const handleTransfer = async (db: Db, log: ethers.Log, args: ethers.Result) => {
+  const [from, to, value] = args;
+
+  await applyLpTransfer(db, {
+    poolId: await getPoolId(db, log.address),
+    from,
+    to,
+    value: value.toString(),
+    ...(await eventMeta(log)),
+  });
+};
+
+// warm the lookup caches for a batch of pair logs, so no RPC round trip runs inside its transaction
+const ORIGIN_TOPICS = ["Swap", "Mint", "Burn"].map(
+  (name) => pairInterface.getEvent(name)!.topicHash
+);
+
+// block and transaction lookups sent at once, a backfill chunk can need thousands
+const PREFETCH_BATCH_SIZE = Number(process.env.PREFETCH_BATCH_SIZE ?? 50);
+
+export const prefetchLogData = async (logs: ethers.Log[]) => {
+  const blocks = new Set(logs.map((log) => log.blockNumber));
+  const txs = new Set(
+    logs
+      .filter((log) => ORIGIN_TOPICS.includes(log.topics[0]))
+      .map((log) => log.transactionHash)
+  );
+
+  const lookups = [
+    ...[...blocks].map((block) => () => getBlockTimestamp(block)),
+    ...[...txs].map((tx) => () => getTxOrigin(tx)),
+  ];
+  for (let i = 0; i < lookups.length; i += PREFETCH_BATCH_SIZE) {
+    await Promise.all(
+      lookups.slice(i, i + PREFETCH_BATCH_SIZE).map((lookup) => lookup())
+    );
+  }
+};
+
+// route a raw pair log to its handler, errors propagate so the caller's transaction rolls back
+export const handlePairLog = async (db: Db, log: ethers.Log) => {
+  const parsed = pairInterface.parseLog(log);
+  if (!parsed) return;
+
+  if (!(await recordLogBlock(db, log.blockNumber, log.blockHash))) {
+    console.warn(
+      `Skipping ${parsed.name} from orphaned block ${log.blockNumber}`
+    );
+    return;
+  }
+
+  switch (parsed.name) {
+    case "Swap":
+      return handleSwap(db, log, parsed.args);
+    case "Mint":
+      return handleMint(db, log, parsed.args);
+    case "Burn":
+      return handleBurn(db, log, parsed.args);
+    case "Sync":
+      return handleSync(db, log, parsed.args);
+    case "Transfer":
+      return handleTransfer(db, log, parsed.args);
+  }
+};
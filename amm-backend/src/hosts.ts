@@ -0,0 +1,96 @@
+import dns from "node:dns";
+import net from "node:net";
+
+// local setups whose receivers run next to the indexer turn the address check off
+const ALLOW_PRIVATE_HOSTS = process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === "true";
+
+// loopback, private, link-local, shared, multicast and reserved ranges; IPv4-mapped IPv6
+// addresses are matched by the IPv4 rules
+const privateRanges = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(network, prefix, "ipv6");
+}
+
+type Address = { address: string; family: number };
+
+const findBlocked = (addresses: Address[]) =>
+  addresses.find(({ address, family }) =>
+    privateRanges.check(address, family === 6 ? "ipv6" : "ipv4")
+  );
+
+// why a webhook URL must not be called, null when every address of its host is public;
+// checked when a subscription is made and before each delivery, IP literals are never
+// looked up by the socket
+export const checkWebhookUrl = async (url: string) => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "Invalid url";
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return "Only http and https urls are allowed";
+  }
+  if (ALLOW_PRIVATE_HOSTS) return null;
+
+  // IPv6 literals keep their brackets in the hostname
+  const host = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: Address[];
+  try {
+    addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+  } catch {
+    return `Cannot resolve ${host}`;
+  }
+
+  const blocked = findBlocked(addresses);
+  return blocked
+    ? `${host} resolves to the non-public address ${blocked.address}`
+    : null;
+};
+
+// socket lookup that fails the connection when the host resolves to a non-public address;
+// the check applies to the addresses connected to, so a name that resolves differently
+// after checkWebhookUrl (DNS rebinding) still cannot reach a private host
+export const publicLookup: net.LookupFunction = (
+  hostname,
+  options,
+  callback
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, []);
+
+    const blocked = ALLOW_PRIVATE_HOSTS ? undefined : findBlocked(addresses);
+    if (blocked) {
+      return callback(
+        new Error(
+          `${hostname} resolves to the non-public address ${blocked.address}`
+        ),
+        []
+      );
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
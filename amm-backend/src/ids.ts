@@ -0,0 +1,41 @@
+import { chainId, type Db } from "./clients.js";
+
+// address -> row id of the process's chain, looked up once per process instead of once per event
+const poolIds = new Map<string, number>();
+const tokenIds = new Map<string, number>();
+
+export const getPoolId = async (db: Db, address: string) => {
+  const cached = poolIds.get(address);
+  if (cached !== undefined) return cached;
+
+  const id = (await db.pool.findUnique({
+    where: { chainId_address: { chainId, address } },
+  }))!.id;
+  poolIds.set(address, id);
+  return id;
+};
+
+export const getTokenId = async (db: Db, address: string) => {
+  const cached = tokenIds.get(address);
+  if (cached !== undefined) return cached;
+
+  const id = (await db.token.findUnique({
+    where: { chainId_address: { chainId, address } },
+  }))!.id;
+  tokenIds.set(address, id);
+  return id;
+};
+
+export const cacheIds = (
+  pools: [string, number][],
+  tokens: [string, number][]
+) => {
+  for (const [address, id] of pools) poolIds.set(address, id);
+  for (const [address, id] of tokens) tokenIds.set(address, id);
+};
+
+// ids read inside a transaction that rolled back, or rows removed by a reorg, may be gone
+export const clearIdCache = () => {
+  poolIds.clear();
+  tokenIds.clear();
+};
@@ -1,162 +1,425 @@
 import { ethers } from "ethers";
-import { PrismaClient } from "@prisma/client";
-import dotenv from "dotenv";
-dotenv.config();
+import { prisma, provider, factory, chain } from "./clients.js";
+import {
+  PAIR_CREATED_TOPIC,
+  PAIR_TOPICS,
+  decodePairCreated,
+  type PairCreated,
+} from "./handlers.js";
+import { FACTORY_STREAM, PAIR_STREAM, loadCheckpoints } from "./checkpoints.js";
+import { backfill, backfillPair } from "./backfill.js";
+import { startMetadataRefresh } from "./tokens.js";
+import { reconcilePools } from "./reconcile.js";
+import { startReserveVerification } from "./drift.js";
+import {
+  acquireLeadership,
+  releaseLeadership,
+  watchLeadership,
+} from "./leader.js";
+import { startStatusServer } from "./status.js";
+import { startWebhookDelivery } from "./webhooks.js";
+import { startPriceUpdates } from "./prices.js";
+import { startSwapRetention } from "./retention.js";
+import { byPosition, writeBatch, type CheckpointUpdate } from "./writer.js";
+import { CONFIG_ERROR_EXIT_CODE, ConfigError } from "./chains.js";
+import {
+  CONFIRMATIONS,
+  detectReorg,
+  recordBlocks,
+  rollbackTo,
+  trackBlock,
+} from "./reorgs.js";
 
-import FactoryABI from "./abi/Factory.json" with { type: "json" };
-import PairABI from "./abi/Pair.json" with { type: "json" };
-import ERC20ABI from "./abi/ERC20.json" with { type: "json" };
+// INGEST_MODE=poll reads logs with chunked eth_getLogs ranges on an interval instead of
+// a subscription per pool, one request per interval however many pools there are
+const POLLING = process.env.INGEST_MODE === "poll";
+const POLL_INTERVAL = Number(process.env.POLL_INTERVAL_MS ?? 4000);
 
-const prisma = new PrismaClient();
-const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+// first block of streams without a checkpoint, from the chain's config
+const START_BLOCK = chain.startBlock;
 
-const factory = new ethers.Contract(
-  process.env.FACTORY_ADDRESS!,
-  FactoryABI,
-  provider
+// how often the pool table is compared with the factory's allPairs
+const RECONCILE_INTERVAL = Number(
+  process.env.RECONCILE_INTERVAL_MS ?? 3600_000
 );
 
-// helper: fetch token metadata
-const getTokenMeta = async (address: string) => {
-  const token = new ethers.Contract(address, ERC20ABI, provider);
+// live writes are buffered and flushed in one transaction per block, or per
+// WRITE_BATCH_SIZE logs when a block is busier than that
+const BATCH_SIZE = Number(process.env.WRITE_BATCH_SIZE ?? 500);
+// a block's logs arrive together, the timer only flushes the tail when no new block follows
+const FLUSH_DELAY = Number(process.env.WRITE_FLUSH_DELAY_MS ?? 1000);
 
-  const [symbol, decimals, name] = await Promise.all([
-    token.symbol(),
-    token.decimals(), // careful: it’s "decimals" not "decimal"
-    token.name().catch(() => null), // optional
-  ]);
+// live logs are held here while a backfill runs, then replayed
+let pendingLogs: ethers.Log[] | null = null;
 
-  return { symbol, decimals, name };
+// live batches are ingested one at a time so checkpoints never pass an unwritten row
+let liveQueue = Promise.resolve();
+
+// a failed live batch or rollback is retried with a doubling delay, then the process exits
+// and the restart backfills from the last checkpoint; dropping it instead would let the
+// next batch's checkpoint pass its rows
+const LIVE_RETRIES = Number(process.env.LIVE_RETRIES ?? 5);
+const RETRY_DELAY = 1000;
+
+// set on shutdown, scheduled work stops enqueueing
+let stopping = false;
+
+let writeBuffer: ethers.Log[] = [];
+let flushTimer: NodeJS.Timeout | undefined;
+
+// subscriptions poll on every new block, overlapping polls deliver a log more than once;
+// keyed by block hash, a log re-included after a reorg is new
+const MAX_SEEN_LOGS = 10_000;
+const seenLogs = new Set<string>();
+
+const isSeen = (log: ethers.Log) => {
+  const key = `${log.blockHash}:${log.index}`;
+  if (seenLogs.has(key)) return true;
+
+  // Set keeps insertion order, so the first key is the oldest entry
+  if (seenLogs.size >= MAX_SEEN_LOGS) {
+    seenLogs.delete(seenLogs.keys().next().value!);
+  }
+  seenLogs.add(key);
+  return false;
 };
 
-// attach listener for swaps + liquidity events for a given pool
-const attachPairListener = async (pairAddress: string) => {
-  const pair = new ethers.Contract(pairAddress, PairABI, provider);
+const handleLiveLog = (log: ethers.Log) => {
+  if (isSeen(log)) return;
+  if (pendingLogs) {
+    pendingLogs.push(log);
+    return;
+  }
+  if (log.removed) return;
 
-  console.log(`Listening to pair: ${pairAddress}`);
+  // a log from a later block means the buffered blocks are complete
+  const last = writeBuffer.at(-1);
+  if (last && log.blockNumber > last.blockNumber) flushLive();
+
+  writeBuffer.push(log);
+  if (writeBuffer.length >= BATCH_SIZE) {
+    flushLive();
+  } else {
+    clearTimeout(flushTimer);
+    flushTimer = setTimeout(flushLive, FLUSH_DELAY);
+  }
+};
 
-  // Swap event
-  pair.on(
-    "Swap",
-    async (sender, amount0In, amount1In, amount0Out, amount1Out, to, event) => {
-      console.log("Swap detected in:", pairAddress);
+const flushLive = () => {
+  clearTimeout(flushTimer);
+  if (writeBuffer.length === 0) return;
 
-      try {
-        await prisma.swap.create({
-          data: {
-            poolId: (
-              await prisma.pool.findUnique({ where: { address: pairAddress } })
-            )!.id,
-            trader: sender,
-            amountIn: amount0In.toString() || amount1In.toString(),
-            amountOut: amount0Out.toString() || amount1Out.toString(),
-            tokenIn: amount0In > 0 ? "token0" : "token1",
-            tokenOut: amount0Out > 0 ? "token0" : "token1",
-          },
-        });
-      } catch (err) {
-        console.error("Error saving swap:", err);
-      }
-    }
+  const logs = writeBuffer;
+  writeBuffer = [];
+  liveQueue = liveQueue.then(() =>
+    retryLive(`saving ${logs.length} live events`, () => ingestLive(logs))
   );
+};
 
-  // Mint (liquidity added)
-  pair.on("Mint", async (sender, amount0, amount1, event) => {
-    console.log("Liquidity added in:", pairAddress);
-
+const retryLive = async (what: string, work: () => Promise<void>) => {
+  for (let attempt = 1; ; attempt++) {
     try {
-      await prisma.liquidity.create({
-        data: {
-          poolId: (
-            await prisma.pool.findUnique({ where: { address: pairAddress } })
-          )!.id,
-          provider: sender,
-          amountA: amount0.toString(),
-          amountB: amount1.toString(),
-        },
-      });
+      await work();
+      return;
     } catch (err) {
-      console.error("Error saving liquidity:", err);
+      if (attempt >= LIVE_RETRIES) {
+        console.error(
+          `Error ${what}, giving up after ${attempt} attempts:`,
+          err
+        );
+        process.exit(1);
+      }
+      const delay = RETRY_DELAY * 2 ** (attempt - 1);
+      console.error(`Error ${what}, retrying in ${delay}ms:`, err);
+      await new Promise((resolve) => setTimeout(resolve, delay));
     }
-  });
+  }
+};
+
+// a live batch commits with a checkpoint per stream on the block before its last log, the
+// last complete one; replaying the rest of that block after a restart is harmless since
+// rows are keyed by (txHash, logIndex)
+const ingestLive = async (logs: ethers.Log[]) => {
+  const created: PairCreated[] = [];
+  const pairLogs: ethers.Log[] = [];
+  const checkpoints = new Map<string, CheckpointUpdate>();
+  const advance = (address: string, stream: string, blockNumber: number) => {
+    const key = `${address}:${stream}`;
+    const known = checkpoints.get(key);
+    if (!known || known.blockNumber < blockNumber - 1) {
+      checkpoints.set(key, { address, stream, blockNumber: blockNumber - 1 });
+    }
+  };
+
+  for (const log of [...logs].sort(byPosition)) {
+    if (log.topics[0] === PAIR_CREATED_TOPIC) {
+      const pool = await decodePairCreated(log);
+      created.push(pool);
+      advance(log.address, FACTORY_STREAM, log.blockNumber);
+      advance(pool.pair, PAIR_STREAM, log.blockNumber);
+    } else {
+      // the pool's catch-up wrote these already
+      if (log.blockNumber <= (caughtUpTo.get(log.address) ?? -1)) continue;
+      pairLogs.push(log);
+      advance(log.address, PAIR_STREAM, log.blockNumber);
+    }
+  }
+
+  await writeBatch(created, pairLogs, [...checkpoints.values()]);
+
+  for (const { pair } of created) {
+    attachPairListener(pair);
+  }
+};
+
+// new heads go through the same queue, so a rollback never interleaves with ingestion;
+// logs of earlier blocks are complete by now and are flushed first
+const handleBlock = (blockNumber: number) => {
+  flushLive();
+  liveQueue = liveQueue.then(() =>
+    retryLive(`tracking block ${blockNumber}`, async () => {
+      const fork = await trackBlock(blockNumber);
+      if (fork !== null) await reorg(fork, blockNumber);
+    })
+  );
+};
 
-  // Burn (liquidity removed)
-  pair.on("Burn", async (sender, amount0, amount1, to, event) => {
-    console.log("Liquidity removed in:", pairAddress);
+// drop the orphaned rows and re-ingest the canonical chain up to the new head; retried on
+// its own, once rolled back the fork is no longer detected
+const reorg = (fork: number, head: number) =>
+  retryLive(`rolling back to block ${fork}`, async () => {
+    await rollbackTo(fork);
+    await backfill(fork + 1, head, await loadCheckpoints(), attachPairListener);
+    await recordBlocks(fork + 1, head);
+  });
 
+// poll mode: check new heads for reorgs, then ingest them like a backfill
+const poll = (lastBlock: number) => {
+  if (stopping) return;
+  liveQueue = liveQueue.then(async () => {
     try {
-      await prisma.liquidity.create({
-        data: {
-          poolId: (
-            await prisma.pool.findUnique({ where: { address: pairAddress } })
-          )!.id,
-          provider: sender,
-          amountA: "-" + amount0.toString(),
-          amountB: "-" + amount1.toString(),
-        },
-      });
+      const head = await provider.getBlockNumber();
+      const firstTracked = Math.max(lastBlock + 1, head - CONFIRMATIONS + 1);
+
+      for (let blockNumber = firstTracked; blockNumber <= head; blockNumber++) {
+        const fork = await trackBlock(blockNumber);
+        if (fork !== null) {
+          await reorg(fork, head);
+          lastBlock = head;
+          break;
+        }
+      }
+
+      if (head > lastBlock) {
+        await backfill(lastBlock + 1, head, await loadCheckpoints());
+        lastBlock = head;
+      }
     } catch (err) {
-      console.error("Error saving liquidity:", err);
+      console.error("Error polling logs:", err);
     }
+
+    setTimeout(() => poll(lastBlock), POLL_INTERVAL);
   });
 };
 
-async function main() {
-  console.log("Listening for events...");
-
-  // Listen for new pools
-  factory.on("PairCreated", async (tokenA, tokenB, pair, event) => {
-    console.log("New pool:", tokenA, tokenB, pair);
-
-    const [metaA, metaB] = await Promise.all([
-      getTokenMeta(tokenA),
-      getTokenMeta(tokenB),
-    ]);
-
-    // Insert tokens if not exist
-    const [tA, tB] = await Promise.all([
-      prisma.token.upsert({
-        where: { address: tokenA },
-        update: {},
-        create: {
-          address: tokenA,
-          symbol: metaA.symbol,
-          name: metaA.name ?? undefined,
-          decimals: metaA.decimals,
-        },
-      }),
-      prisma.token.upsert({
-        where: { address: tokenB },
-        update: {},
-        create: {
-          address: tokenB,
-          symbol: metaB.symbol,
-          name: metaB.name ?? undefined,
-          decimals: metaB.decimals,
-        },
-      }),
-    ]);
-
-    await prisma.pool.create({
-      data: {
-        address: pair,
-        tokenAId: tA.id,
-        tokenBId: tB.id,
-      },
-    });
+// pools a missed PairCreated left out are inserted, listened to and backfilled from START_BLOCK
+const reconcileMissedPools = async () => {
+  const { added } = await reconcilePools();
+  if (added.length === 0) return;
 
-    // Attach listeners for swaps + liquidity
+  for (const pair of added) {
     attachPairListener(pair);
+  }
+  if (START_BLOCK === undefined) {
+    console.warn("START_BLOCK is not set, added pools are not backfilled");
+    return;
+  }
+  const head = await provider.getBlockNumber();
+  await backfill(START_BLOCK, head, await loadCheckpoints());
+};
+
+const scheduleReconciliation = () => {
+  setInterval(() => {
+    if (stopping) return;
+    liveQueue = liveQueue.then(async () => {
+      try {
+        await reconcileMissedPools();
+      } catch (err) {
+        console.error("Pool reconciliation error:", err);
+      }
+    });
+  }, RECONCILE_INTERVAL);
+};
+
+// attach listener for swaps + liquidity events for a given pool
+const attachedPairs = new Set<string>();
+// last block a pool's catch-up committed, its listener delivers some of those blocks too
+const caughtUpTo = new Map<string, number>();
+
+const listenToPair = (pairAddress: string) => {
+  if (POLLING || attachedPairs.has(pairAddress)) return;
+  attachedPairs.add(pairAddress);
+
+  console.log(`Listening to pair: ${pairAddress}`);
+  return provider.on(
+    { address: pairAddress, topics: [PAIR_TOPICS] },
+    handleLiveLog
+  );
+};
+
+// a pool found after the head was read is only listened to from the block its subscription
+// starts at, its logs since its checkpoint (the first Mint and Sync follow createPair in
+// their own transactions) are fetched behind it through the live queue; blocks both cover
+// are skipped by the live batches
+const attachPairListener = (pairAddress: string) => {
+  const listening = listenToPair(pairAddress);
+  if (!listening) return;
+
+  liveQueue = liveQueue.then(() =>
+    retryLive(`catching up pair ${pairAddress}`, async () => {
+      // the subscription reads its first block when it starts, a head read after covers it
+      await listening;
+      const checkpoints = await loadCheckpoints();
+      const checkpoint = checkpoints.get(pairAddress, PAIR_STREAM);
+      // a reconciled pool without one waits for its backfill from START_BLOCK
+      if (checkpoint === undefined) return;
+
+      const head = await provider.getBlockNumber();
+      await backfillPair(pairAddress, checkpoint + 1, head, checkpoints);
+      caughtUpTo.set(pairAddress, head);
+    })
+  );
+};
+
+// stop taking logs, write what is buffered and let the standby take the lock
+const shutdown = async (signal: string) => {
+  if (stopping) return;
+  stopping = true;
+  console.log(`${signal} received, shutting down`);
+
+  await provider.removeAllListeners();
+  flushLive();
+  await liveQueue;
+
+  await releaseLeadership();
+  await prisma.$disconnect();
+  provider.destroy();
+  process.exit(0);
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+
+async function main() {
+  // standbys serve their status too, reporting leader 0
+  startStatusServer();
+
+  // only one replica ingests, the others wait here until its connection goes away
+  await acquireLeadership();
+  watchLeadership(() => {
+    console.error(
+      "Lost the leader lock, exiting so the new leader writes alone"
+    );
+    process.exit(1);
   });
 
+  console.log(
+    `Listening for events on ${chain.name} (chain ${chain.chainId})...`
+  );
+
+  const factoryAddress = await factory.getAddress();
+
+  // pools the startup backfill finds are caught up through the queue once it is done
+  let startQueue!: () => void;
+  liveQueue = new Promise((resolve) => (startQueue = resolve));
+
+  if (!POLLING) {
+    // live logs are buffered until startup has caught up with the chain
+    pendingLogs = [];
+
+    // Listen for new pools
+    provider.on(
+      { address: factoryAddress, topics: [PAIR_CREATED_TOPIC] },
+      handleLiveLog
+    );
+  }
+
   // Bootstrap: attach listeners to already deployed pools
-  const pools = await prisma.pool.findMany();
+  const pools = await prisma.pool.findMany({
+    where: { chainId: chain.chainId },
+  });
   for (const pool of pools) {
-    attachPairListener(pool.address);
+    listenToPair(pool.address);
+  }
+
+  const head = await provider.getBlockNumber();
+
+  // rows written before a reorg that happened while we were down
+  const fork = await detectReorg();
+  if (fork !== null) await rollbackTo(fork);
+  await recordBlocks(head - CONFIRMATIONS + 1, head);
+
+  // resume each stream after its last committed block, START_BLOCK for streams without one
+  const checkpoints = await loadCheckpoints();
+  const resumeFrom = (address: string, stream: string) => {
+    const checkpoint = checkpoints.get(address, stream);
+    return checkpoint !== undefined ? checkpoint + 1 : START_BLOCK;
+  };
+  const resumeBlocks = [
+    resumeFrom(factoryAddress, FACTORY_STREAM),
+    ...pools.map((pool) => resumeFrom(pool.address, PAIR_STREAM)),
+  ].filter((block) => block !== undefined);
+
+  // without START_BLOCK a stream without a checkpoint would start at the head and skip its
+  // history, e.g. after a migration dropped rows and rewound the checkpoints; only a chain
+  // without pools yet starts there
+  const unresumable = resumeBlocks.length < pools.length + 1;
+  if (START_BLOCK === undefined && pools.length > 0 && unresumable) {
+    throw new ConfigError(
+      `Streams of ${chain.name} have no checkpoint and START_BLOCK is not set, set it to the factory's deployment block`
+    );
+  }
+
+  // Backfill mode: ingest the missed range before any live log
+  const backfilled = resumeBlocks.length > 0;
+  if (backfilled) {
+    const fromBlock = Math.min(...resumeBlocks);
+    console.log(`Backfilling blocks ${fromBlock} to ${head}...`);
+    await backfill(fromBlock, head, checkpoints, attachPairListener);
+  }
+
+  // only after the backfill, which stores pools created while we were down with their
+  // checkpoints; what the factory lists beyond those is a PairCreated missed for good
+  await reconcileMissedPools();
+
+  // tokens stored with placeholder metadata are retried in the background
+  startMetadataRefresh();
+  scheduleReconciliation();
+  startReserveVerification();
+  startWebhookDelivery();
+  startPriceUpdates();
+  startSwapRetention();
+
+  startQueue();
+
+  if (POLLING) {
+    console.log(`Caught up, polling from block ${head + 1}`);
+    setTimeout(() => poll(head), POLL_INTERVAL);
+    return;
   }
+
+  // hand off to live tailing, skipping what the backfill already covered
+  const buffered = pendingLogs!;
+  pendingLogs = null;
+  for (const log of buffered.sort(byPosition)) {
+    if (!backfilled || log.blockNumber > head) handleLiveLog(log);
+  }
+  console.log(`Caught up, tailing from block ${head + 1}`);
+
+  provider.on("block", handleBlock);
 }
 
 main().catch((err) => {
   console.error(err);
-  process.exit(1);
+  process.exit(err instanceof ConfigError ? CONFIG_ERROR_EXIT_CODE : 1);
 });
@@ -0,0 +1,104 @@
+import { PrismaClient } from "@prisma/client";
+import { chainId } from "./clients.js";
+
+// replicas of one chain share a key and elect one leader, the others wait on hot standby;
+// the key is the two-int pair (LEADER_LOCK_KEY, chainId), chain ids past the int range wrap
+const LOCK_KEY = Number(process.env.LEADER_LOCK_KEY ?? 7_167_853);
+const LOCK_CHAIN = chainId | 0;
+// how often a standby retries the lock and the leader checks it still holds it
+const LOCK_INTERVAL = Number(process.env.LEADER_LOCK_INTERVAL_MS ?? 5000);
+// checks that fail in a row before the leader gives up, a lost connection loses the lock anyway
+const LOCK_CHECK_RETRIES = 3;
+
+// advisory locks belong to a session, so the lock lives on its own single connection;
+// when that connection dies Postgres releases the lock and a standby takes over
+const lockUrl = new URL(process.env.DATABASE_URL!);
+lockUrl.searchParams.set("connection_limit", "1");
+const lockClient = new PrismaClient({ datasourceUrl: lockUrl.toString() });
+
+let leader = false;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const tryLock = async () => {
+  const [{ locked }] = await lockClient.$queryRaw<{ locked: boolean }[]>`
+    SELECT pg_try_advisory_lock(${LOCK_KEY}::int, ${LOCK_CHAIN}::int) AS "locked"
+  `;
+  return locked;
+};
+
+// false once the connection was replaced, a new session does not inherit the lock; a
+// two-int key shows as classid and objid with objsubid 2, a bigint key with objsubid 1
+const holdsLock = async () => {
+  const [{ held }] = await lockClient.$queryRaw<{ held: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM pg_locks
+      WHERE locktype = 'advisory' AND granted AND pid = pg_backend_pid()
+        AND classid = ${LOCK_KEY}::int::oid AND objid = ${LOCK_CHAIN}::int::oid
+        AND objsubid = 2
+    ) AS "held"
+  `;
+  return held;
+};
+
+export const isLeader = () => leader;
+
+// resolves once this process is the leader
+export const acquireLeadership = async () => {
+  let announced = false;
+  while (true) {
+    try {
+      if (await tryLock()) break;
+    } catch (err) {
+      console.error("Leader lock error:", err);
+    }
+    if (!announced) {
+      console.log("Another indexer holds the leader lock, waiting on standby");
+      announced = true;
+    }
+    await sleep(LOCK_INTERVAL);
+  }
+
+  leader = true;
+  console.log("Acquired leader lock");
+};
+
+// a single attempt, for commands that must not write alongside a running indexer
+export const tryLeadership = async () => {
+  leader = await tryLock();
+  return leader;
+};
+
+// calls onLost when the lock is gone, or could not be checked LOCK_CHECK_RETRIES times in a
+// row; the caller must stop writing at once
+export const watchLeadership = (onLost: () => void) => {
+  let failures = 0;
+  const timer = setInterval(async () => {
+    let held = false;
+    try {
+      held = await holdsLock();
+      failures = 0;
+    } catch (err) {
+      failures++;
+      console.error(
+        `Leader lock check error (${failures}/${LOCK_CHECK_RETRIES}):`,
+        err
+      );
+      if (failures < LOCK_CHECK_RETRIES) return;
+    }
+    if (held) return;
+
+    clearInterval(timer);
+    leader = false;
+    onLost();
+  }, LOCK_INTERVAL);
+  timer.unref();
+};
+
+export const releaseLeadership = async () => {
+  if (leader) {
+    await lockClient.$queryRaw`SELECT pg_advisory_unlock(${LOCK_KEY}::int, ${LOCK_CHAIN}::int)`;
+    leader = false;
+  }
+  await lockClient.$disconnect();
+};
@@ -0,0 +1,25 @@
+// counters of the indexer process, read by the status endpoint
+
+// committed events by type, PairCreated included
+const eventsIngested = new Map<string, number>();
+
+// duration of committed write transactions
+const writes = { count: 0, totalMs: 0, lastMs: 0, maxMs: 0 };
+
+export const recordEvents = (type: string, count = 1) => {
+  eventsIngested.set(type, (eventsIngested.get(type) ?? 0) + count);
+};
+
+export const recordWrite = (ms: number) => {
+  writes.count++;
+  writes.totalMs += ms;
+  writes.lastMs = ms;
+  writes.maxMs = Math.max(writes.maxMs, ms);
+};
+
+export const getEventCounts = () => Object.fromEntries(eventsIngested);
+
+export const getWriteStats = () => ({
+  ...writes,
+  averageMs: writes.count > 0 ? writes.totalMs / writes.count : 0,
+});
@@ -0,0 +1,83 @@
+import { ethers } from "ethers";
+import { Prisma } from "@prisma/client";
+import type { Db } from "./clients.js";
+
+type LpTransfer = {
+  poolId: number;
+  from: string;
+  to: string;
+  value: string;
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  timestamp: Date;
+};
+
+const moveBalance = async (
+  db: Db,
+  poolId: number,
+  holder: string,
+  delta: bigint,
+  blockNumber: number
+) => {
+  const where = { poolId_holder: { poolId, holder } };
+  const position = await db.lpPosition.findUnique({ where });
+  const balance = (BigInt(position?.balance ?? 0) + delta).toString();
+
+  await db.lpPosition.upsert({
+    where,
+    update: { balance, lastBlock: blockNumber },
+    create: {
+      poolId,
+      holder,
+      balance,
+      firstBlock: blockNumber,
+      lastBlock: blockNumber,
+    },
+  });
+};
+
+// record an LP transfer and move both balances, a transfer already recorded is ignored
+export const applyLpTransfer = async (db: Db, transfer: LpTransfer) => {
+  const known = await db.lpTransfer.findUnique({
+    where: {
+      txHash_logIndex: {
+        txHash: transfer.txHash,
+        logIndex: transfer.logIndex,
+      },
+    },
+  });
+  if (known) return;
+
+  await db.lpTransfer.create({ data: transfer });
+
+  const value = BigInt(transfer.value);
+  const { poolId, from, to, blockNumber } = transfer;
+  if (from !== ethers.ZeroAddress) {
+    await moveBalance(db, poolId, from, -value, blockNumber);
+  }
+  if (to !== ethers.ZeroAddress) {
+    await moveBalance(db, poolId, to, value, blockNumber);
+  }
+};
+
+// recompute the positions of the pools from their recorded transfers, after rows were removed;
+// pool ids belong to one chain, other chains' positions are left alone
+export const rebuildLpPositions = async (db: Db, poolIds: number[]) => {
+  if (poolIds.length === 0) return;
+
+  const pools = Prisma.join(poolIds);
+  await db.lpPosition.deleteMany({ where: { poolId: { in: poolIds } } });
+  await db.$executeRaw`
+    INSERT INTO "LpPosition" ("poolId", "holder", "balance", "firstBlock", "lastBlock")
+    SELECT "poolId", "holder", SUM("delta")::text, MIN("blockNumber"), MAX("blockNumber")
+    FROM (
+      SELECT "poolId", "to" AS "holder", "value"::numeric AS "delta", "blockNumber"
+      FROM "LpTransfer" WHERE "poolId" IN (${pools}) AND "to" <> ${ethers.ZeroAddress}
+      UNION ALL
+      SELECT "poolId", "from" AS "holder", -"value"::numeric AS "delta", "blockNumber"
+      FROM "LpTransfer" WHERE "poolId" IN (${pools}) AND "from" <> ${ethers.ZeroAddress}
+    ) AS "moves"
+    GROUP BY "poolId", "holder"
+  `;
+};
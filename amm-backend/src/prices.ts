@@ -0,0 +1,228 @@
+import { Prisma } from "@prisma/client";
+import { prisma, chain, chainId, type Db } from "./clients.js";
+import { refreshHourTraders } from "./accounts.js";
+
+const { Decimal } = Prisma;
+type Decimal = Prisma.Decimal;
+
+// how often the leader prices the hours ingested since the last run, and how many per run
+const PRICE_INTERVAL = Number(process.env.PRICE_INTERVAL_MS ?? 60_000);
+const PRICE_BATCH_SIZE = 500;
+
+const HOUR = 3600_000;
+
+// the latest reserves of every pool of the chain before a point in time, in whole tokens
+type PoolReserves = {
+  tokenAId: number;
+  tokenBId: number;
+  amountA: Decimal;
+  amountB: Decimal;
+  blockNumber: number;
+};
+
+const loadReserves = async (db: Db, before: Date): Promise<PoolReserves[]> => {
+  const rows = await db.$queryRaw<
+    {
+      tokenAId: number;
+      tokenBId: number;
+      decimalsA: bigint;
+      decimalsB: bigint;
+      reserveA: string;
+      reserveB: string;
+      blockNumber: number;
+    }[]
+  >`
+    SELECT p."tokenAId", p."tokenBId", ta."decimals" AS "decimalsA", tb."decimals" AS "decimalsB",
+      r."reserveA", r."reserveB", r."blockNumber"
+    FROM "Pool" p
+    JOIN "Token" ta ON ta."id" = p."tokenAId"
+    JOIN "Token" tb ON tb."id" = p."tokenBId"
+    CROSS JOIN LATERAL (
+      SELECT x."reserveA", x."reserveB", x."blockNumber" FROM "ReserveSnapshot" x
+      WHERE x."poolId" = p."id" AND x."timestamp" < ${before}
+      ORDER BY x."blockNumber" DESC, x."logIndex" DESC
+      LIMIT 1
+    ) AS r
+    WHERE p."chainId" = ${chainId}
+  `;
+
+  return rows.map((row) => ({
+    tokenAId: row.tokenAId,
+    tokenBId: row.tokenBId,
+    amountA: new Decimal(row.reserveA).div(
+      new Decimal(10).pow(Number(row.decimalsA))
+    ),
+    amountB: new Decimal(row.reserveB).div(
+      new Decimal(10).pow(Number(row.decimalsB))
+    ),
+    blockNumber: row.blockNumber,
+  }));
+};
+
+type DerivedPrice = { price: Decimal; depth: Decimal | null };
+
+// widest path from the numeraire: tokens are settled deepest path first, a path is as deep
+// as the numeraire value of its shallowest pool side, and each hop prices the next token
+// by the pool's reserve ratio
+const derivePrices = (numeraireId: number, pools: PoolReserves[]) => {
+  const edges = new Map<
+    number,
+    { token: number; own: Decimal; other: Decimal }[]
+  >();
+  const addEdge = (from: number, to: number, own: Decimal, other: Decimal) => {
+    if (!edges.has(from)) edges.set(from, []);
+    edges.get(from)!.push({ token: to, own, other });
+  };
+  for (const pool of pools) {
+    if (pool.amountA.isZero() || pool.amountB.isZero()) continue;
+    addEdge(pool.tokenAId, pool.tokenBId, pool.amountA, pool.amountB);
+    addEdge(pool.tokenBId, pool.tokenAId, pool.amountB, pool.amountA);
+  }
+
+  const settled = new Map<number, DerivedPrice>();
+  const candidates = new Map<number, DerivedPrice>([
+    [numeraireId, { price: new Decimal(1), depth: null }],
+  ]);
+
+  // null depth is the numeraire's own, deeper than any path
+  const deeper = (a: Decimal | null, b: Decimal | null) =>
+    a === null || (b !== null && a.gt(b));
+
+  while (candidates.size > 0) {
+    let token = -1;
+    let best: DerivedPrice | null = null;
+    for (const [id, candidate] of candidates) {
+      if (!best || deeper(candidate.depth, best.depth)) {
+        token = id;
+        best = candidate;
+      }
+    }
+    candidates.delete(token);
+    settled.set(token, best!);
+
+    for (const edge of edges.get(token) ?? []) {
+      if (settled.has(edge.token)) continue;
+
+      const sideValue = edge.own.mul(best!.price);
+      const depth =
+        best!.depth === null ? sideValue : Decimal.min(best!.depth, sideValue);
+      const current = candidates.get(edge.token);
+      if (current && !deeper(depth, current.depth)) continue;
+
+      candidates.set(edge.token, {
+        price: best!.price.mul(edge.own).div(edge.other),
+        depth,
+      });
+    }
+  }
+
+  return settled;
+};
+
+// prices at the end of one hour, replacing the ones stored for it, and the volume of the
+// accounts that swapped in it
+const priceHour = async (numeraireId: number, periodStart: Date) => {
+  const end = new Date(periodStart.getTime() + HOUR);
+  const pools = await loadReserves(prisma, end);
+  const prices = derivePrices(numeraireId, pools);
+  const blockNumber = Math.max(0, ...pools.map((pool) => pool.blockNumber));
+
+  await prisma.$transaction(async (tx) => {
+    await tx.tokenPrice.deleteMany({
+      where: { periodStart, token: { chainId } },
+    });
+    await tx.tokenPrice.createMany({
+      data: [...prices].map(([tokenId, { price, depth }]) => ({
+        tokenId,
+        periodStart,
+        blockNumber,
+        price,
+        depth,
+      })),
+    });
+    await refreshHourTraders(tx, periodStart);
+  });
+};
+
+const findNumeraire = async () => {
+  if (!chain.numeraire) return null;
+  return prisma.token.findFirst({
+    where: {
+      chainId,
+      address: { equals: chain.numeraire, mode: "insensitive" },
+    },
+  });
+};
+
+// price every hour with pool activity from the last priced hour on, which is priced
+// again as its reserves may have moved since
+export const updatePrices = async () => {
+  const numeraire = await findNumeraire();
+  if (!numeraire) return 0;
+
+  const last = await prisma.tokenPrice.findFirst({
+    where: { token: { chainId } },
+    orderBy: { periodStart: "desc" },
+  });
+  const hours = await prisma.poolHourData.findMany({
+    where: {
+      pool: { chainId },
+      periodStart: { gte: last?.periodStart ?? new Date(0) },
+    },
+    distinct: ["periodStart"],
+    select: { periodStart: true },
+    orderBy: { periodStart: "asc" },
+    take: PRICE_BATCH_SIZE,
+  });
+
+  for (const { periodStart } of hours) {
+    await priceHour(numeraire.id, periodStart);
+  }
+  return hours.length;
+};
+
+// prices from this time on are stale after their reserves were rolled back or replayed,
+// the next update prices those hours again
+export const clearPricesSince = (db: Db, since: Date) =>
+  db.tokenPrice.deleteMany({
+    where: {
+      token: { chainId },
+      periodStart: {
+        gte: new Date(Math.floor(since.getTime() / HOUR) * HOUR),
+      },
+    },
+  });
+
+// price the whole history again, after the numeraire changed or the rollups were rebuilt
+export const rebuildPrices = async () => {
+  await clearPricesSince(prisma, new Date(0));
+
+  // every run prices its first hour again, a run of at most one hour is the last
+  let priced = await updatePrices();
+  for (let count = priced; count > 1;) {
+    count = await updatePrices();
+    priced += count - 1;
+  }
+  console.log(`Priced ${priced} hours`);
+};
+
+export const startPriceUpdates = () => {
+  if (!chain.numeraire) {
+    console.warn(
+      `No numeraire configured for ${chain.name}, tokens are not priced`
+    );
+    return;
+  }
+
+  const run = async () => {
+    try {
+      // catch up in consecutive runs, then settle into the interval
+      const count = await updatePrices();
+      setTimeout(run, count >= PRICE_BATCH_SIZE ? 0 : PRICE_INTERVAL).unref();
+    } catch (err) {
+      console.error("Price update error:", err);
+      setTimeout(run, PRICE_INTERVAL).unref();
+    }
+  };
+  setTimeout(run, 0).unref();
+};
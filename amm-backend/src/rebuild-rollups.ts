@@ -0,0 +1,37 @@
+import { parseArgs } from "node:util";
+import { ethers } from "ethers";
+import { prisma, chainId } from "./clients.js";
+import { rebuildRollups } from "./rollups.js";
+import { rebuildPrices } from "./prices.js";
+import { rebuildAccounts } from "./accounts.js";
+import { releaseLeadership, tryLeadership } from "./leader.js";
+
+// usage: [CHAIN_ID=N] npm run rollups:rebuild -- [--pool 0x..] [--pool 0x..]
+// recomputes the hour and day rollups from the raw events, of every pool when none is given,
+// then the token prices derived from them and the accounts.
+// The indexer of the chain must be stopped, the rebuild holds its leader lock meanwhile
+const { values } = parseArgs({
+  options: {
+    pool: { type: "string", multiple: true },
+  },
+});
+
+async function main() {
+  // a running indexer refreshes the same periods, prices and accounts under the rebuild
+  if (!(await tryLeadership())) {
+    throw new Error(
+      `An indexer of chain ${chainId} holds the leader lock, stop it before rebuilding`
+    );
+  }
+
+  await rebuildRollups(values.pool?.map((pool) => ethers.getAddress(pool)));
+  await rebuildPrices();
+  await rebuildAccounts();
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => Promise.all([releaseLeadership(), prisma.$disconnect()]));
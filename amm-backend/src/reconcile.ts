@@ -0,0 +1,123 @@
+import { ethers } from "ethers";
+import { prisma, provider, factory, chainId } from "./clients.js";
+import { saveToken } from "./handlers.js";
+import { resolveTokenMeta } from "./tokens.js";
+import { cacheIds } from "./ids.js";
+import { publishInvalidation } from "./events.js";
+
+import PairABI from "./abi/Pair.json" with { type: "json" };
+
+// allPairs(i) calls sent at once
+const CALL_BATCH_SIZE = 50;
+
+export type ReconciliationReport = {
+  onChain: number;
+  stored: number;
+  // pools the factory lists that were missing from the database, now inserted
+  added: string[];
+  // pools in the database the factory does not list
+  unknown: string[];
+};
+
+const listFactoryPairs = async () => {
+  const length = Number(await factory.allPairsLength());
+  const pairs: string[] = [];
+
+  for (let i = 0; i < length; i += CALL_BATCH_SIZE) {
+    const indexes = Array.from(
+      { length: Math.min(CALL_BATCH_SIZE, length - i) },
+      (_, offset) => i + offset
+    );
+    const batch = await Promise.all(
+      indexes.map((index) => factory.allPairs(index) as Promise<string>)
+    );
+    pairs.push(...batch);
+  }
+
+  return pairs;
+};
+
+// store a pool the indexer never saw a PairCreated for; its creation block is unknown,
+// the time it was found stands in for the creation time
+const insertPool = async (address: string) => {
+  const pair = new ethers.Contract(address, PairABI, provider);
+  const [tokenA, tokenB]: string[] = await Promise.all([
+    pair.token0(),
+    pair.token1(),
+  ]);
+  const [metaA, metaB] = await Promise.all([
+    resolveTokenMeta(tokenA),
+    resolveTokenMeta(tokenB),
+  ]);
+
+  await prisma.$transaction(async (tx) => {
+    const [tA, tB] = await Promise.all([
+      saveToken(tx, tokenA, metaA),
+      saveToken(tx, tokenB, metaB),
+    ]);
+    const pool = await tx.pool.upsert({
+      where: { chainId_address: { chainId, address } },
+      update: {},
+      create: {
+        chainId,
+        address,
+        tokenAId: tA.id,
+        tokenBId: tB.id,
+        timestamp: new Date(),
+      },
+    });
+
+    cacheIds(
+      [[address, pool.id]],
+      [
+        [tokenA, tA.id],
+        [tokenB, tB.id],
+      ]
+    );
+    await publishInvalidation(tx, chainId);
+  });
+};
+
+// compare the factory's pair list with the database and insert what is missing
+export const reconcilePools = async (): Promise<ReconciliationReport> => {
+  const onChain = await listFactoryPairs();
+  const stored = await prisma.pool.findMany({
+    where: { chainId },
+    select: { address: true },
+  });
+
+  const storedSet = new Set(stored.map((pool) => pool.address.toLowerCase()));
+  const onChainSet = new Set(onChain.map((pair) => pair.toLowerCase()));
+
+  const added: string[] = [];
+  for (const pair of onChain) {
+    if (storedSet.has(pair.toLowerCase())) continue;
+    await insertPool(pair);
+    added.push(pair);
+  }
+
+  const unknown = stored
+    .map((pool) => pool.address)
+    .filter((address) => !onChainSet.has(address.toLowerCase()));
+
+  const report = {
+    onChain: onChain.length,
+    stored: stored.length,
+    added,
+    unknown,
+  };
+  logReport(report);
+  return report;
+};
+
+const logReport = (report: ReconciliationReport) => {
+  console.log(
+    `Reconciled pools: ${report.onChain} on chain, ${report.stored} stored, ${report.added.length} added, ${report.unknown.length} not on chain`
+  );
+  for (const pair of report.added) {
+    console.warn(`Added pool missing from the database: ${pair}`);
+  }
+  for (const pair of report.unknown) {
+    console.warn(`Pool in the database is not listed by the factory: ${pair}`);
+  }
+};
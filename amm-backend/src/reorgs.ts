@@ -0,0 +1,194 @@
+import { prisma, provider, chainId, type Db } from "./clients.js";
+import { rebuildLpPositions } from "./positions.js";
+import { clearIdCache } from "./ids.js";
+import { evictBlocksAfter, getBlockTimestamp } from "./blocks.js";
+import { refreshRollups } from "./rollups.js";
+import { clearPricesSince } from "./prices.js";
+import { refreshAccounts } from "./accounts.js";
+import { publishInvalidation } from "./events.js";
+
+// blocks this deep are final: their hashes are pruned and their rows never rolled back
+export const CONFIRMATIONS = Number(process.env.CONFIRMATIONS ?? 12);
+
+// a rollback rewrites what was written above the fork in one transaction, like a write batch
+const TX_TIMEOUT = 120_000;
+
+// highest block the tracker has seen
+let chainHead = 0;
+
+// check a log against the recorded hash of its block, recording the block if unseen;
+// false means the log comes from an orphaned block and must not be ingested
+export const recordLogBlock = async (
+  db: Db,
+  blockNumber: number,
+  blockHash: string
+) => {
+  if (blockNumber <= chainHead - CONFIRMATIONS) return true;
+
+  const block = await db.indexedBlock.upsert({
+    where: { chainId_number: { chainId, number: blockNumber } },
+    update: {},
+    create: { chainId, number: blockNumber, hash: blockHash },
+  });
+  return block.hash === blockHash;
+};
+
+// processes that do not track blocks, like the replay command, set the head directly
+export const observeHead = (blockNumber: number) => {
+  chainHead = Math.max(chainHead, blockNumber);
+};
+
+// store canonical headers for [fromBlock, toBlock], replacing whatever was recorded
+export const recordBlocks = async (fromBlock: number, toBlock: number) => {
+  for (let number = Math.max(fromBlock, 0); number <= toBlock; number++) {
+    const block = (await provider.getBlock(number))!;
+    const data = { hash: block.hash!, parentHash: block.parentHash };
+    await prisma.indexedBlock.upsert({
+      where: { chainId_number: { chainId, number } },
+      update: data,
+      create: { chainId, number, ...data },
+    });
+  }
+  chainHead = Math.max(chainHead, toBlock);
+};
+
+// highest recorded block below `below` that is still canonical
+const lastCommonBlock = async (below: number) => {
+  const recorded = await prisma.indexedBlock.findMany({
+    where: { chainId, number: { lt: below } },
+    orderBy: { number: "desc" },
+  });
+
+  for (const block of recorded) {
+    const canonical = await provider.getBlock(block.number);
+    if (canonical?.hash === block.hash) return block.number;
+  }
+
+  // nothing recorded survived, the reorg is deeper than the confirmation window
+  const fork = (recorded.at(-1)?.number ?? below) - 1;
+  console.error(
+    `Reorg deeper than ${CONFIRMATIONS} confirmations, rolling back to block ${fork}`
+  );
+  return fork;
+};
+
+// compare the recorded chain tip against the node, returns the fork block if it was orphaned
+export const detectReorg = async () => {
+  const latest = await prisma.indexedBlock.findFirst({
+    where: { chainId },
+    orderBy: { number: "desc" },
+  });
+  if (!latest) return null;
+
+  const canonical = await provider.getBlock(latest.number);
+  if (canonical?.hash === latest.hash) return null;
+  return lastCommonBlock(latest.number);
+};
+
+// record a new head, returns the fork block when it does not extend the recorded chain
+export const trackBlock = async (blockNumber: number) => {
+  const block = (await provider.getBlock(blockNumber))!;
+  const [known, parent] = await Promise.all([
+    prisma.indexedBlock.findUnique({
+      where: { chainId_number: { chainId, number: blockNumber } },
+    }),
+    prisma.indexedBlock.findUnique({
+      where: { chainId_number: { chainId, number: blockNumber - 1 } },
+    }),
+  ]);
+
+  const reorged =
+    (known && known.hash !== block.hash) ||
+    (parent && parent.hash !== block.parentHash);
+  if (reorged) return lastCommonBlock(blockNumber);
+
+  await recordBlocks(blockNumber, blockNumber);
+  await prisma.indexedBlock.deleteMany({
+    where: { chainId, number: { lt: chainHead - CONFIRMATIONS } },
+  });
+  return null;
+};
+
+// remove every row of this chain written above the fork block and rewind checkpoints to it
+export const rollbackTo = async (fork: number) => {
+  console.warn(`Reorg detected, rolling back to block ${fork}`);
+  const forkTime = await getBlockTimestamp(fork);
+  // rows re-ingested above the fork must not get the orphaned blocks' timestamps
+  evictBlocksAfter(fork);
+
+  await prisma.$transaction(
+    async (tx) => {
+      const after = { chainId, blockNumber: { gt: fork } };
+      const poolAfter = { pool: { chainId }, blockNumber: { gt: fork } };
+      const accounts = await tx.account.findMany({
+        where: { chainId, lastBlock: { gt: fork } },
+        select: { address: true },
+      });
+      // pools with events above the fork, the only ones whose rollups change
+      const touched = await tx.$queryRaw<{ poolId: number }[]>`
+        SELECT "poolId" FROM "Swap"
+        WHERE "chainId" = ${chainId} AND "blockNumber" > ${fork} AND "timestamp" >= ${forkTime}
+        UNION
+        SELECT "poolId" FROM "Liquidity" WHERE "chainId" = ${chainId} AND "blockNumber" > ${fork}
+        UNION
+        SELECT s."poolId" FROM "ReserveSnapshot" s JOIN "Pool" p ON p."id" = s."poolId"
+        WHERE p."chainId" = ${chainId} AND s."blockNumber" > ${fork}
+      `;
+      // pools whose positions the removed transfers moved
+      const moved = await tx.lpTransfer.findMany({
+        where: poolAfter,
+        distinct: ["poolId"],
+        select: { poolId: true },
+      });
+      const [swaps, liquidity, snapshots, transfers] = await Promise.all([
+        tx.swap.deleteMany({ where: after }),
+        tx.liquidity.deleteMany({ where: after }),
+        tx.reserveSnapshot.deleteMany({ where: poolAfter }),
+        tx.lpTransfer.deleteMany({ where: poolAfter }),
+      ]);
+      await rebuildLpPositions(
+        tx,
+        moved.map((transfer) => transfer.poolId)
+      );
+      // periods left without events lose their rows, pools created after the fork included
+      await refreshRollups(
+        tx,
+        touched.map((pool) => pool.poolId),
+        forkTime,
+        new Date()
+      );
+      await clearPricesSince(tx, forkTime);
+      await refreshAccounts(
+        tx,
+        accounts.map((account) => account.address)
+      );
+      const pools = await tx.pool.deleteMany({ where: after });
+
+      await tx.checkpoint.updateMany({
+        where: after,
+        data: { blockNumber: fork },
+      });
+      await tx.indexedBlock.deleteMany({
+        where: { chainId, number: { gt: fork } },
+      });
+      // events that no longer happened are not announced, sent ones cannot be taken back
+      await tx.webhookDelivery.deleteMany({
+        where: {
+          status: { not: "DELIVERED" },
+          subscription: { chainId },
+          blockNumber: { gt: fork },
+        },
+      });
+
+      await publishInvalidation(tx, chainId);
+
+      console.warn(
+        `Rolled back ${swaps.count} swaps, ${liquidity.count} liquidity rows, ${snapshots.count} reserve snapshots, ${transfers.count} LP transfers and ${pools.count} pools`
+      );
+    },
+    { timeout: TX_TIMEOUT }
+  );
+
+  // deleted pools keep no id, and a re-created one gets a new id
+  clearIdCache();
+};
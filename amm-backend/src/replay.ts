@@ -0,0 +1,273 @@
+import { parseArgs } from "node:util";
+import { ethers } from "ethers";
+import { Prisma } from "@prisma/client";
+import { prisma, provider, chainId, type Db } from "./clients.js";
+import { PAIR_TOPICS, handlePairLog, prefetchLogData } from "./handlers.js";
+import { MAX_CHUNK_SIZE, isRangeTooLarge } from "./backfill.js";
+import { PAIR_STREAM, loadCheckpoints } from "./checkpoints.js";
+import { rebuildLpPositions } from "./positions.js";
+import { refreshRollups } from "./rollups.js";
+import { clearPricesSince } from "./prices.js";
+import { refreshAccounts } from "./accounts.js";
+import { getBlockTimestamp } from "./blocks.js";
+import { observeHead } from "./reorgs.js";
+import { byPosition } from "./writer.js";
+import { releaseLeadership, tryLeadership } from "./leader.js";
+import { publishInvalidation, stopPublishing } from "./events.js";
+
+// usage: [CHAIN_ID=N] npm run replay -- --pool 0x.. [--pool 0x..] [--from N] [--to N] [--dry-run]
+//        npm run replay -- --from N --to N [--dry-run]
+// deletes the pair events of the pools in [from, to] and ingests them again from the chain,
+// in one transaction; --dry-run prints the rows that would change and rolls back.
+// The indexer of the chain must be stopped, the replay holds its leader lock meanwhile
+const { values } = parseArgs({
+  options: {
+    pool: { type: "string", multiple: true },
+    from: { type: "string" },
+    to: { type: "string" },
+    "dry-run": { type: "boolean", default: false },
+  },
+});
+
+// a replay can span many blocks, it gets more room than a backfill chunk
+const TX_TIMEOUT = 30 * 60_000;
+
+// thrown to roll the transaction back after a dry run
+class DryRun extends Error {}
+
+type Row = Record<string, unknown>;
+
+// event tables a replay rewrites, LP positions are rebuilt from the transfers afterwards;
+// archived swaps of the range are replayed into Swap, the retention job archives them again
+const readRows = async (db: Db, where: object) => ({
+  swap: [
+    ...(await db.swap.findMany({ where })),
+    ...(await db.swapArchive.findMany({ where })),
+  ],
+  liquidity: await db.liquidity.findMany({ where }),
+  reserveSnapshot: await db.reserveSnapshot.findMany({ where }),
+  lpTransfer: await db.lpTransfer.findMany({ where }),
+});
+
+type Rows = Awaited<ReturnType<typeof readRows>>;
+
+// row ids and indexing times change on every replay, they are not part of the diff
+const IGNORED_FIELDS = ["id", "createdAt"];
+
+const comparable = (row: Row) =>
+  Object.fromEntries(
+    Object.entries(row)
+      .filter(([field]) => !IGNORED_FIELDS.includes(field))
+      .map(([field, value]) => [
+        field,
+        value instanceof Date
+          ? value.toISOString()
+          : value instanceof Prisma.Decimal
+            ? value.toFixed()
+            : String(value),
+      ])
+  );
+
+// addresses whose events a replay rewrote, without the zero address and the pairs
+const accountsOf = (rows: Rows, pools: Set<string>) =>
+  [
+    ...rows.swap.map((swap) => swap.txOrigin ?? swap.trader),
+    ...rows.liquidity.map((liquidity) => liquidity.txOrigin),
+    ...rows.lpTransfer.flatMap((transfer) => [transfer.from, transfer.to]),
+  ].filter((address) => address !== ethers.ZeroAddress && !pools.has(address));
+
+const keyOf = (row: Row) => `${row.txHash}:${row.logIndex}`;
+
+const diffRows = (before: Rows, after: Rows) => {
+  const counts = { inserted: 0, changed: 0, removed: 0 };
+
+  for (const table of Object.keys(before) as (keyof Rows)[]) {
+    const old = new Map<string, Row>(
+      before[table].map((row) => [keyOf(row), comparable(row)])
+    );
+    const current = new Map<string, Row>(
+      after[table].map((row) => [keyOf(row), comparable(row)])
+    );
+
+    for (const [key, row] of current) {
+      const previous = old.get(key);
+      if (!previous) {
+        counts.inserted++;
+        console.log(`+ ${table} ${key} ${JSON.stringify(row)}`);
+        continue;
+      }
+      const changes = Object.keys(row)
+        .filter((field) => row[field] !== previous[field])
+        .map((field) => `${field}: ${previous[field]} -> ${row[field]}`);
+      if (changes.length > 0) {
+        counts.changed++;
+        console.log(`~ ${table} ${key} ${changes.join(", ")}`);
+      }
+    }
+    for (const [key, row] of old) {
+      if (current.has(key)) continue;
+      counts.removed++;
+      console.log(`- ${table} ${key} ${JSON.stringify(row)}`);
+    }
+  }
+
+  return counts;
+};
+
+// pair logs of the range, the chunk is halved when the RPC refuses it as too large
+const fetchPairLogs = async (
+  addresses: string[],
+  fromBlock: number,
+  toBlock: number
+) => {
+  const logs: ethers.Log[] = [];
+  let chunkSize = MAX_CHUNK_SIZE;
+
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = Math.min(start + chunkSize - 1, toBlock);
+    try {
+      logs.push(
+        ...(await provider.getLogs({
+          address: addresses,
+          topics: [PAIR_TOPICS],
+          fromBlock: start,
+          toBlock: end,
+        }))
+      );
+      start = end + 1;
+    } catch (err) {
+      if (!isRangeTooLarge(err) || chunkSize === 1) throw err;
+      chunkSize = Math.max(1, Math.floor(chunkSize / 2));
+    }
+  }
+
+  return logs.sort(byPosition);
+};
+
+async function main() {
+  const dryRun = values["dry-run"];
+  if (!values.pool?.length && (!values.from || !values.to)) {
+    throw new Error("Pass --pool, or --from and --to for a block range");
+  }
+
+  // a running indexer would write the same rows and checkpoints under the replay
+  if (!(await tryLeadership())) {
+    throw new Error(
+      `An indexer of chain ${chainId} holds the leader lock, stop it before replaying`
+    );
+  }
+  // the replayed events were published when first indexed
+  stopPublishing();
+
+  const addresses = (values.pool ?? []).map((pool) => ethers.getAddress(pool));
+  const pools = await prisma.pool.findMany({
+    where: addresses.length
+      ? { chainId, address: { in: addresses } }
+      : { chainId },
+  });
+  const missing = addresses.filter(
+    (address) => !pools.some((pool) => pool.address === address)
+  );
+  if (missing.length > 0) {
+    throw new Error(`Unknown pools: ${missing.join(", ")}`);
+  }
+  if (pools.length === 0) {
+    console.log("No pools to replay");
+    return;
+  }
+
+  // a pool replays from its creation up to what the indexer has committed for it
+  const head = await provider.getBlockNumber();
+  const checkpoints = await loadCheckpoints();
+  const fromBlock = values.from
+    ? Number(values.from)
+    : Math.min(...pools.map((pool) => pool.blockNumber ?? 0));
+  const toBlock = values.to
+    ? Number(values.to)
+    : Math.max(
+        ...pools.map(
+          (pool) => checkpoints.get(pool.address, PAIR_STREAM) ?? head
+        )
+      );
+
+  // final blocks are not recorded for reorg tracking
+  observeHead(head);
+
+  console.log(
+    `Replaying ${pools.length} pools over blocks ${fromBlock}-${toBlock}${dryRun ? " (dry run)" : ""}`
+  );
+  const logs = await fetchPairLogs(
+    pools.map((pool) => pool.address),
+    fromBlock,
+    toBlock
+  );
+  await prefetchLogData(logs);
+  const [fromTime, toTime] = await Promise.all([
+    getBlockTimestamp(fromBlock),
+    getBlockTimestamp(toBlock),
+  ]);
+
+  const where = {
+    poolId: { in: pools.map((pool) => pool.id) },
+    blockNumber: { gte: fromBlock, lte: toBlock },
+  };
+
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        const before = await readRows(tx, where);
+
+        await tx.swap.deleteMany({ where });
+        // left archived, the replayed swaps would count twice in the accounts
+        await tx.swapArchive.deleteMany({ where });
+        await tx.liquidity.deleteMany({ where });
+        await tx.reserveSnapshot.deleteMany({ where });
+        await tx.lpTransfer.deleteMany({ where });
+
+        for (const log of logs) {
+          await handlePairLog(tx, log);
+        }
+        await rebuildLpPositions(
+          tx,
+          pools.map((pool) => pool.id)
+        );
+        await refreshRollups(
+          tx,
+          pools.map((pool) => pool.id),
+          fromTime,
+          toTime
+        );
+        await clearPricesSince(tx, fromTime);
+
+        const after = await readRows(tx, where);
+        const pairs = new Set(pools.map((pool) => pool.address));
+        await refreshAccounts(tx, [
+          ...new Set([
+            ...accountsOf(before, pairs),
+            ...accountsOf(after, pairs),
+          ]),
+        ]);
+        await publishInvalidation(tx, chainId);
+
+        const counts = diffRows(before, after);
+        console.log(
+          `${logs.length} events replayed: ${counts.inserted} rows inserted, ${counts.changed} changed, ${counts.removed} removed`
+        );
+
+        if (dryRun) throw new DryRun();
+      },
+      { timeout: TX_TIMEOUT }
+    );
+  } catch (err) {
+    if (!(err instanceof DryRun)) throw err;
+    console.log("Dry run, nothing was written");
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => Promise.all([releaseLeadership(), prisma.$disconnect()]));
@@ -0,0 +1,167 @@
+import { Prisma } from "@prisma/client";
+import { prisma, chainId, type Db } from "./clients.js";
+import { publishInvalidation } from "./events.js";
+
+// raw swaps of whole months older than this many months are archived once their hours are
+// in the rollups, 0 keeps every swap
+const RETENTION_MONTHS = Number(process.env.SWAP_RETENTION_MONTHS ?? 0);
+
+// how often the leader creates partitions and archives swaps, and how many rows per statement
+const RETENTION_INTERVAL = Number(
+  process.env.RETENTION_INTERVAL_MS ?? 3600_000
+);
+const ARCHIVE_BATCH_SIZE = 10_000;
+
+// longest wait for the lock on Swap when detaching a partition; a waiting lock request
+// queues every later swap write behind it, so the drop gives up and retries next run
+const DETACH_LOCK_TIMEOUT = 5000;
+
+// month partitions exist this many months ahead, so no new swap lands in the default one
+const PARTITION_MONTHS_AHEAD = 3;
+
+const SWAP_COLUMNS = Prisma.raw(
+  `"id", "chainId", "poolId", "trader", "recipient", "amountIn", "amountOut", "tokenInId",
+  "tokenOutId", "txOrigin", "txHash", "blockNumber", "logIndex", "timestamp", "createdAt"`
+);
+
+// first instant of the UTC month, moved by a number of months
+const monthStart = (time: Date, months = 0) =>
+  new Date(Date.UTC(time.getUTCFullYear(), time.getUTCMonth() + months));
+
+const partitionName = (month: Date) =>
+  `Swap_${month.getUTCFullYear()}_${String(month.getUTCMonth() + 1).padStart(2, "0")}`;
+
+// the month a partition named by partitionName holds, null for the default one
+const partitionMonth = (name: string) => {
+  const match = /^Swap_(\d{4})_(\d{2})$/.exec(name);
+  return match
+    ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1))
+    : null;
+};
+
+// Prisma stores DateTime as UTC in columns without a time zone
+const timestampLiteral = (time: Date) =>
+  `'${time.toISOString().replace("T", " ").replace("Z", "")}'`;
+
+// the partitions of this month and the next ones, shared by every chain; a month whose
+// swaps already landed in the default partition cannot get one and stays there
+export const ensureSwapPartitions = async () => {
+  const now = new Date();
+  for (let i = 0; i <= PARTITION_MONTHS_AHEAD; i++) {
+    const month = monthStart(now, i);
+    const name = partitionName(month);
+    try {
+      await prisma.$executeRawUnsafe(
+        `CREATE TABLE IF NOT EXISTS "public"."${name}" PARTITION OF "public"."Swap"
+        FOR VALUES FROM (${timestampLiteral(month)}) TO (${timestampLiteral(monthStart(month, 1))})`
+      );
+    } catch (err) {
+      console.warn(`Could not create swap partition ${name}:`, err);
+    }
+  }
+};
+
+// move the chain's swaps before a time into SwapArchive, skipping those of hours the
+// rollups do not have yet; each statement moves one batch atomically
+const archiveSwaps = async (before: Date) => {
+  let archived = 0;
+  for (;;) {
+    const count = await prisma.$executeRaw`
+      WITH moved AS (
+        DELETE FROM "Swap"
+        WHERE ("id", "timestamp") IN (
+          SELECT s."id", s."timestamp" FROM "Swap" s
+          WHERE s."chainId" = ${chainId} AND s."timestamp" < ${before}
+            AND EXISTS (
+              SELECT 1 FROM "PoolHourData" h
+              WHERE h."poolId" = s."poolId" AND h."periodStart" = date_trunc('hour', s."timestamp")
+            )
+          LIMIT ${ARCHIVE_BATCH_SIZE}
+        )
+        RETURNING ${SWAP_COLUMNS}
+      )
+      INSERT INTO "SwapArchive" (${SWAP_COLUMNS})
+      SELECT ${SWAP_COLUMNS} FROM moved
+    `;
+    archived += count;
+    if (count < ARCHIVE_BATCH_SIZE) return archived;
+  }
+};
+
+const isEmpty = async (db: Db, partition: string) => {
+  const [{ empty }] = await db.$queryRawUnsafe<{ empty: boolean }[]>(
+    `SELECT NOT EXISTS (SELECT 1 FROM "public"."${partition}") AS "empty"`
+  );
+  return empty;
+};
+
+// month partitions before a time left empty by every chain's archiving
+const dropEmptyPartitions = async (before: Date) => {
+  const partitions = await prisma.$queryRaw<{ name: string }[]>`
+    SELECT c."relname" AS "name" FROM pg_inherits i
+    JOIN pg_class c ON c."oid" = i."inhrelid"
+    WHERE i."inhparent" = '"public"."Swap"'::regclass
+  `;
+
+  let dropped = 0;
+  for (const { name } of partitions) {
+    const month = partitionMonth(name);
+    if (!month || monthStart(month, 1) > before) continue;
+
+    // months still holding swaps are skipped without locking anything
+    if (!(await isEmpty(prisma, name))) continue;
+
+    // only the partition is locked while it is checked again, Swap only by the detach
+    // itself; DETACH CONCURRENTLY is not allowed next to a default partition
+    try {
+      const emptied = await prisma.$transaction(async (tx) => {
+        await tx.$executeRawUnsafe(
+          `SET LOCAL lock_timeout = ${DETACH_LOCK_TIMEOUT}`
+        );
+        await tx.$executeRawUnsafe(
+          `LOCK TABLE "public"."${name}" IN ACCESS EXCLUSIVE MODE`
+        );
+        if (!(await isEmpty(tx, name))) return false;
+
+        await tx.$executeRawUnsafe(
+          `ALTER TABLE "public"."Swap" DETACH PARTITION "public"."${name}"`
+        );
+        await tx.$executeRawUnsafe(`DROP TABLE "public"."${name}"`);
+        return true;
+      });
+      if (emptied) dropped++;
+    } catch (err) {
+      console.warn(`Could not drop swap partition ${name}:`, err);
+    }
+  }
+  return dropped;
+};
+
+export const applyRetention = async () => {
+  await ensureSwapPartitions();
+  if (RETENTION_MONTHS <= 0) return;
+
+  const before = monthStart(new Date(), -RETENTION_MONTHS);
+  const archived = await archiveSwaps(before);
+  // the API's pool list carries the swaps
+  if (archived > 0) await publishInvalidation(prisma, chainId);
+  const dropped = await dropEmptyPartitions(before);
+  if (archived > 0 || dropped > 0) {
+    console.log(
+      `Archived ${archived} swaps before ${before.toISOString()}, dropped ${dropped} partitions`
+    );
+  }
+};
+
+// runs in the leader
+export const startSwapRetention = () => {
+  const run = async () => {
+    try {
+      await applyRetention();
+    } catch (err) {
+      console.error("Swap retention error:", err);
+    }
+    setTimeout(run, RETENTION_INTERVAL).unref();
+  };
+  setTimeout(run, 0).unref();
+};
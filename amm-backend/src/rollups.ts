@@ -0,0 +1,263 @@
+import { ethers } from "ethers";
+import { Prisma } from "@prisma/client";
+import { prisma, chain, chainId, type Db } from "./clients.js";
+import { getBlockTimestamp } from "./blocks.js";
+import { getPoolId } from "./ids.js";
+
+// fee taken from every swap's input amount, in basis points
+const SWAP_FEE_BPS = chain.swapFeeBps ?? 30;
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+
+// a rebuild recomputes one pool per transaction
+const REBUILD_TX_TIMEOUT = 10 * 60_000;
+
+const startOf = (time: Date, period: number) =>
+  new Date(Math.floor(time.getTime() / period) * period);
+
+const endOf = (time: Date, period: number) =>
+  new Date(startOf(time, period).getTime() + period);
+
+// hours of the pools in [from, to) with any event, from their raw rows; an hour whose
+// events are gone loses its row. Swaps moved to SwapArchive still count for their hours
+const refreshPoolHours = async (
+  db: Db,
+  poolIds: number[],
+  from: Date,
+  to: Date
+) => {
+  const pools = Prisma.join(poolIds);
+  await db.$executeRaw`
+    DELETE FROM "PoolHourData"
+    WHERE "poolId" IN (${pools}) AND "periodStart" >= ${from} AND "periodStart" < ${to}
+  `;
+  await db.$executeRaw`
+    INSERT INTO "PoolHourData" (
+      "poolId", "periodStart", "openReserveA", "openReserveB", "closeReserveA", "closeReserveB",
+      "volumeA", "volumeB", "feesA", "feesB", "swapCount", "lpCount"
+    )
+    SELECT h."poolId", h."periodStart",
+      COALESCE(o."reserveA", 0), COALESCE(o."reserveB", 0),
+      COALESCE(c."reserveA", o."reserveA", 0), COALESCE(c."reserveB", o."reserveB", 0),
+      COALESCE(s."volumeA", 0), COALESCE(s."volumeB", 0),
+      COALESCE(s."feesA", 0), COALESCE(s."feesB", 0),
+      s."swapCount", l."lpCount"
+    FROM (
+      SELECT "poolId", date_trunc('hour', "timestamp") AS "periodStart" FROM "Swap"
+      WHERE "poolId" IN (${pools}) AND "timestamp" >= ${from} AND "timestamp" < ${to}
+      UNION
+      SELECT "poolId", date_trunc('hour', "timestamp") FROM "SwapArchive"
+      WHERE "poolId" IN (${pools}) AND "timestamp" >= ${from} AND "timestamp" < ${to}
+      UNION
+      SELECT "poolId", date_trunc('hour', "timestamp") FROM "Liquidity"
+      WHERE "poolId" IN (${pools}) AND "timestamp" >= ${from} AND "timestamp" < ${to}
+      UNION
+      SELECT "poolId", date_trunc('hour', "timestamp") FROM "ReserveSnapshot"
+      WHERE "poolId" IN (${pools}) AND "timestamp" >= ${from} AND "timestamp" < ${to}
+    ) AS h
+    JOIN "Pool" p ON p."id" = h."poolId"
+    LEFT JOIN LATERAL (
+      SELECT r."reserveA"::numeric AS "reserveA", r."reserveB"::numeric AS "reserveB"
+      FROM "ReserveSnapshot" r
+      WHERE r."poolId" = h."poolId" AND r."timestamp" < h."periodStart"
+      ORDER BY r."blockNumber" DESC, r."logIndex" DESC
+      LIMIT 1
+    ) AS o ON true
+    LEFT JOIN LATERAL (
+      SELECT r."reserveA"::numeric AS "reserveA", r."reserveB"::numeric AS "reserveB"
+      FROM "ReserveSnapshot" r
+      WHERE r."poolId" = h."poolId" AND r."timestamp" < h."periodStart" + interval '1 hour'
+      ORDER BY r."blockNumber" DESC, r."logIndex" DESC
+      LIMIT 1
+    ) AS c ON true
+    CROSS JOIN LATERAL (
+      SELECT
+        SUM(CASE WHEN w."tokenInId" = p."tokenAId" THEN w."amountIn" ELSE w."amountOut" END) AS "volumeA",
+        SUM(CASE WHEN w."tokenInId" = p."tokenBId" THEN w."amountIn" ELSE w."amountOut" END) AS "volumeB",
+        SUM(CASE WHEN w."tokenInId" = p."tokenAId" THEN div(w."amountIn" * ${SWAP_FEE_BPS}, 10000) ELSE 0 END) AS "feesA",
+        SUM(CASE WHEN w."tokenInId" = p."tokenBId" THEN div(w."amountIn" * ${SWAP_FEE_BPS}, 10000) ELSE 0 END) AS "feesB",
+        COUNT(*)::int AS "swapCount"
+      FROM (
+        SELECT "tokenInId", "amountIn", "amountOut" FROM "Swap"
+        WHERE "poolId" = h."poolId"
+          AND "timestamp" >= h."periodStart" AND "timestamp" < h."periodStart" + interval '1 hour'
+        UNION ALL
+        SELECT "tokenInId", "amountIn", "amountOut" FROM "SwapArchive"
+        WHERE "poolId" = h."poolId"
+          AND "timestamp" >= h."periodStart" AND "timestamp" < h."periodStart" + interval '1 hour'
+      ) AS w
+    ) AS s
+    CROSS JOIN LATERAL (
+      SELECT COUNT(*)::int AS "lpCount"
+      FROM "Liquidity" q
+      WHERE q."poolId" = h."poolId"
+        AND q."timestamp" >= h."periodStart" AND q."timestamp" < h."periodStart" + interval '1 hour'
+    ) AS l
+  `;
+};
+
+// days of the pools in [from, to), summed from their hours
+const refreshPoolDays = async (
+  db: Db,
+  poolIds: number[],
+  from: Date,
+  to: Date
+) => {
+  const pools = Prisma.join(poolIds);
+  await db.$executeRaw`
+    DELETE FROM "PoolDayData"
+    WHERE "poolId" IN (${pools}) AND "periodStart" >= ${from} AND "periodStart" < ${to}
+  `;
+  await db.$executeRaw`
+    INSERT INTO "PoolDayData" (
+      "poolId", "periodStart", "openReserveA", "openReserveB", "closeReserveA", "closeReserveB",
+      "volumeA", "volumeB", "feesA", "feesB", "swapCount", "lpCount"
+    )
+    SELECT "poolId", date_trunc('day', "periodStart"),
+      (array_agg("openReserveA" ORDER BY "periodStart"))[1],
+      (array_agg("openReserveB" ORDER BY "periodStart"))[1],
+      (array_agg("closeReserveA" ORDER BY "periodStart" DESC))[1],
+      (array_agg("closeReserveB" ORDER BY "periodStart" DESC))[1],
+      SUM("volumeA"), SUM("volumeB"), SUM("feesA"), SUM("feesB"),
+      SUM("swapCount")::int, SUM("lpCount")::int
+    FROM "PoolHourData"
+    WHERE "poolId" IN (${pools}) AND "periodStart" >= ${from} AND "periodStart" < ${to}
+    GROUP BY "poolId", date_trunc('day', "periodStart")
+  `;
+};
+
+// days of the tokens in [from, to), from the hours of every pool they are in; reserves are
+// each pool's last snapshot before the day starts and ends, summed
+const refreshTokenDays = async (
+  db: Db,
+  tokenIds: number[],
+  from: Date,
+  to: Date
+) => {
+  const tokens = Prisma.join(tokenIds);
+  await db.$executeRaw`
+    DELETE FROM "TokenDayData"
+    WHERE "tokenId" IN (${tokens}) AND "periodStart" >= ${from} AND "periodStart" < ${to}
+  `;
+  await db.$executeRaw`
+    INSERT INTO "TokenDayData" (
+      "tokenId", "periodStart", "openReserve", "closeReserve", "volume", "fees", "swapCount", "lpCount"
+    )
+    SELECT d."tokenId", d."periodStart", COALESCE(o."reserve", 0), COALESCE(c."reserve", 0),
+      d."volume", d."fees", d."swapCount", d."lpCount"
+    FROM (
+      SELECT t."tokenId", date_trunc('day', h."periodStart") AS "periodStart",
+        SUM(t."volume") AS "volume", SUM(t."fees") AS "fees",
+        SUM(h."swapCount")::int AS "swapCount", SUM(h."lpCount")::int AS "lpCount"
+      FROM "PoolHourData" h
+      JOIN "Pool" p ON p."id" = h."poolId"
+      CROSS JOIN LATERAL (
+        VALUES (p."tokenAId", h."volumeA", h."feesA"), (p."tokenBId", h."volumeB", h."feesB")
+      ) AS t ("tokenId", "volume", "fees")
+      WHERE t."tokenId" IN (${tokens}) AND h."periodStart" >= ${from} AND h."periodStart" < ${to}
+      GROUP BY t."tokenId", date_trunc('day', h."periodStart")
+    ) AS d
+    CROSS JOIN LATERAL (
+      SELECT SUM(CASE WHEN p."tokenAId" = d."tokenId" THEN r."reserveA" ELSE r."reserveB" END::numeric) AS "reserve"
+      FROM "Pool" p
+      CROSS JOIN LATERAL (
+        SELECT x."reserveA", x."reserveB" FROM "ReserveSnapshot" x
+        WHERE x."poolId" = p."id" AND x."timestamp" < d."periodStart"
+        ORDER BY x."blockNumber" DESC, x."logIndex" DESC
+        LIMIT 1
+      ) AS r
+      WHERE d."tokenId" IN (p."tokenAId", p."tokenBId")
+    ) AS o
+    CROSS JOIN LATERAL (
+      SELECT SUM(CASE WHEN p."tokenAId" = d."tokenId" THEN r."reserveA" ELSE r."reserveB" END::numeric) AS "reserve"
+      FROM "Pool" p
+      CROSS JOIN LATERAL (
+        SELECT x."reserveA", x."reserveB" FROM "ReserveSnapshot" x
+        WHERE x."poolId" = p."id" AND x."timestamp" < d."periodStart" + interval '1 day'
+        ORDER BY x."blockNumber" DESC, x."logIndex" DESC
+        LIMIT 1
+      ) AS r
+      WHERE d."tokenId" IN (p."tokenAId", p."tokenBId")
+    ) AS c
+  `;
+};
+
+const tokensOf = async (db: Db, poolIds: number[]) => {
+  const pools = await db.pool.findMany({
+    where: { id: { in: poolIds } },
+    select: { tokenAId: true, tokenBId: true },
+  });
+  return [...new Set(pools.flatMap((p) => [p.tokenAId, p.tokenBId]))];
+};
+
+// recompute every hour and day of the pools and their tokens that overlaps [from, to],
+// after their raw events were written or removed
+export const refreshRollups = async (
+  db: Db,
+  poolIds: number[],
+  from: Date,
+  to: Date
+) => {
+  if (poolIds.length === 0) return;
+
+  await refreshPoolHours(db, poolIds, startOf(from, HOUR), endOf(to, HOUR));
+
+  const dayFrom = startOf(from, DAY);
+  const dayTo = endOf(to, DAY);
+  await refreshPoolDays(db, poolIds, dayFrom, dayTo);
+  await refreshTokenDays(db, await tokensOf(db, poolIds), dayFrom, dayTo);
+};
+
+// the periods a batch of pair logs falls in, inside the batch's transaction
+export const refreshLogRollups = async (db: Db, logs: ethers.Log[]) => {
+  if (logs.length === 0) return;
+
+  const poolIds = new Set<number>();
+  const times = [];
+  for (const log of logs) {
+    poolIds.add(await getPoolId(db, log.address));
+    times.push((await getBlockTimestamp(log.blockNumber)).getTime());
+  }
+
+  await refreshRollups(
+    db,
+    [...poolIds],
+    new Date(Math.min(...times)),
+    new Date(Math.max(...times))
+  );
+};
+
+// recompute the whole history of the chain's pools, or of the given ones
+export const rebuildRollups = async (addresses?: string[]) => {
+  const pools = await prisma.pool.findMany({
+    where: addresses?.length
+      ? { chainId, address: { in: addresses } }
+      : { chainId },
+    select: { id: true, address: true },
+  });
+
+  const from = new Date(0);
+  const to = new Date();
+  for (const pool of pools) {
+    await prisma.$transaction(
+      async (tx) => {
+        await refreshPoolHours(tx, [pool.id], from, endOf(to, HOUR));
+        await refreshPoolDays(tx, [pool.id], from, endOf(to, DAY));
+      },
+      { timeout: REBUILD_TX_TIMEOUT }
+    );
+    console.log(`Rebuilt rollups of pool ${pool.address}`);
+  }
+
+  const tokenIds = await tokensOf(
+    prisma,
+    pools.map((pool) => pool.id)
+  );
+  for (const tokenId of tokenIds) {
+    await refreshTokenDays(prisma, [tokenId], from, endOf(to, DAY));
+  }
+  console.log(
+    `Rebuilt rollups of ${pools.length} pools and ${tokenIds.length} tokens`
+  );
+};
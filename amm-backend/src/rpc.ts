@@ -0,0 +1,137 @@
+import { ethers } from "ethers";
+
+// an endpoint that fails is skipped for BASE_BACKOFF * 2^failures, capped at MAX_BACKOFF
+const BASE_BACKOFF = 1_000;
+const MAX_BACKOFF = 60_000;
+
+// how often every endpoint is probed, and how far behind the best head it may fall
+const HEALTH_CHECK_INTERVAL = Number(
+  process.env.RPC_HEALTH_INTERVAL_MS ?? 15_000
+);
+const MAX_HEAD_LAG = Number(process.env.RPC_MAX_HEAD_LAG ?? 5);
+
+type Endpoint = {
+  url: string;
+  failures: number;
+  retryAt: number;
+  head: number;
+  // failures since start, reported by the status endpoint
+  errors: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const post = async (url: string, payload: unknown) => {
+  const request = new ethers.FetchRequest(url);
+  request.body = JSON.stringify(payload);
+  request.setHeader("content-type", "application/json");
+
+  const response = await request.send();
+  response.assertOk();
+  return response.bodyJson;
+};
+
+// JSON-RPC provider over several endpoints: requests go to the first healthy one in
+// configured order and fail over on transport errors. JSON-RPC errors are returned as
+// they are, they come from the node and would fail the same way elsewhere.
+// Subscriptions poll eth_getLogs from the last block they saw: an eth_newFilter id only
+// exists on the endpoint that created it, ethers drops the subscription once its
+// eth_getFilterChanges reaches another one, while a poll carries no endpoint state and
+// resumes on whichever endpoint serves it after a failover.
+export class FailoverProvider extends ethers.JsonRpcProvider {
+  readonly endpoints: Endpoint[];
+
+  constructor(urls: string[]) {
+    super(urls[0], undefined, { polling: true });
+    this.endpoints = urls.map((url) => ({
+      url,
+      failures: 0,
+      retryAt: 0,
+      head: 0,
+      errors: 0,
+    }));
+  }
+
+  private markFailed(endpoint: Endpoint, reason: unknown) {
+    endpoint.failures++;
+    endpoint.errors++;
+    const backoff = Math.min(
+      BASE_BACKOFF * 2 ** (endpoint.failures - 1),
+      MAX_BACKOFF
+    );
+    endpoint.retryAt = Date.now() + backoff;
+    console.warn(
+      `RPC ${endpoint.url} failed (${endpoint.failures}x), retrying in ${backoff}ms:`,
+      reason instanceof Error ? reason.message : reason
+    );
+  }
+
+  private markHealthy(endpoint: Endpoint) {
+    if (endpoint.failures > 0) console.log(`RPC ${endpoint.url} recovered`);
+    endpoint.failures = 0;
+    endpoint.retryAt = 0;
+  }
+
+  async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult>> {
+    // every endpoint gets a few chances before the request is given up
+    const attempts = this.endpoints.length * 3;
+
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      const now = Date.now();
+      const endpoint =
+        this.endpoints.find((e) => e.retryAt <= now) ??
+        this.endpoints.reduce((a, b) => (a.retryAt <= b.retryAt ? a : b));
+      if (endpoint.retryAt > now) await sleep(endpoint.retryAt - now);
+
+      try {
+        const result = await post(endpoint.url, payload);
+        this.markHealthy(endpoint);
+        return Array.isArray(result) ? result : [result];
+      } catch (err) {
+        this.markFailed(endpoint, err);
+      }
+    }
+
+    throw new Error(`All RPC endpoints failed after ${attempts} attempts`);
+  }
+
+  // probe every endpoint, failing the ones that are down or lag behind the best head
+  async checkHealth() {
+    await Promise.all(
+      this.endpoints.map(async (endpoint) => {
+        try {
+          const { result } = await post(endpoint.url, {
+            jsonrpc: "2.0",
+            id: 1,
+            method: "eth_blockNumber",
+            params: [],
+          });
+          endpoint.head = Number(result);
+        } catch (err) {
+          endpoint.head = 0;
+          this.markFailed(endpoint, err);
+        }
+      })
+    );
+
+    const best = Math.max(...this.endpoints.map((e) => e.head));
+    for (const endpoint of this.endpoints) {
+      if (endpoint.head > 0 && best - endpoint.head > MAX_HEAD_LAG) {
+        this.markFailed(
+          endpoint,
+          `${best - endpoint.head} blocks behind the best endpoint`
+        );
+      }
+    }
+  }
+
+  startHealthChecks() {
+    setInterval(() => {
+      this.checkHealth().catch((err) =>
+        console.error("RPC health check error:", err)
+      );
+    }, HEALTH_CHECK_INTERVAL).unref();
+  }
+}
@@ -0,0 +1,67 @@
+import { fork, type ChildProcess } from "node:child_process";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import dotenv from "dotenv";
+dotenv.config();
+
+import { CONFIG_ERROR_EXIT_CODE, loadChains } from "./chains.js";
+
+// one indexer process per configured chain, each with its own provider, queue and leader lock;
+// a process that exits with an error, e.g. after losing the leader lock, is started again,
+// unless its configuration is at fault
+const RESTART_DELAY = Number(process.env.RESTART_DELAY_MS ?? 5000);
+const BASE_STATUS_PORT = Number(process.env.STATUS_PORT ?? 9464);
+
+// same extension as this file, so it runs under ts-node and from dist alike
+const here = fileURLToPath(import.meta.url);
+const indexer = path.join(path.dirname(here), `index${path.extname(here)}`);
+
+const children = new Map<number, ChildProcess>();
+let stopping = false;
+
+const start = (chainId: number, statusPort: number) => {
+  // fork keeps execArgv, the ts-node loader included
+  const child = fork(indexer, {
+    env: {
+      ...process.env,
+      CHAIN_ID: String(chainId),
+      STATUS_PORT: String(statusPort),
+    },
+  });
+  children.set(chainId, child);
+
+  child.on("exit", (code, signal) => {
+    children.delete(chainId);
+    if (stopping) {
+      if (children.size === 0) process.exit(0);
+      return;
+    }
+
+    if (code === CONFIG_ERROR_EXIT_CODE) {
+      console.error(
+        `Indexer for chain ${chainId} exited on a configuration error, not restarting it`
+      );
+      return;
+    }
+    console.error(
+      `Indexer for chain ${chainId} exited (${signal ?? code}), restarting in ${RESTART_DELAY}ms`
+    );
+    setTimeout(() => start(chainId, statusPort), RESTART_DELAY);
+  });
+};
+
+// children flush their writes and release their locks before the runner exits
+const shutdown = (signal: NodeJS.Signals) => {
+  if (stopping) return;
+  stopping = true;
+  if (children.size === 0) process.exit(0);
+  for (const child of children.values()) child.kill(signal);
+};
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+
+loadChains().forEach((chain, i) => {
+  console.log(`Starting indexer for ${chain.name} (chain ${chain.chainId})`);
+  start(chain.chainId, BASE_STATUS_PORT + i);
+});
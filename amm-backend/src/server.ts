@@ -1,15 +1,23 @@
 import express from "express";
-import { PrismaClient } from "@prisma/client";
+import crypto from "node:crypto";
+import { Prisma, PrismaClient, WebhookEvent, DeliveryStatus } from "@prisma/client";
 import { ethers } from "ethers";
 import cors from "cors";
 import dotenv from "dotenv";
 import routerAbi from "./abi/Router.json" with { type: "json" };
+import { loadChains } from "./chains.js";
+import { subscribeEvents, type AmmEvent, type CacheInvalidation } from "./events.js";
+import { checkWebhookUrl } from "./hosts.js";
 
 dotenv.config();
 
 const app = express();
 const prisma = new PrismaClient();
 
+// Amounts are Decimal(78,0) and prices Decimal(78,30), serialize them in plain notation
+// rather than in exponent notation
+Prisma.Decimal.set({ toExpPos: 78, toExpNeg: -30 });
+
 // Middleware
 app.use(cors({
   origin: "http://localhost:3001",
@@ -17,15 +25,91 @@ app.use(cors({
 }));
 app.use(express.json());
 
-// Blockchain setup
-const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
-const router = new ethers.Contract(process.env.ROUTER_ADDRESS!, routerAbi, provider);
+// Blockchain setup, one router per configured chain
+const chainConfigs = loadChains();
+const chains = new Map(chainConfigs.map(chain => {
+  const provider = new ethers.JsonRpcProvider(chain.rpcUrls[0]);
+  const router = chain.router ? new ethers.Contract(chain.router, routerAbi, provider) : null;
+  return [chain.chainId, { chainId: chain.chainId, name: chain.name, router, numeraire: chain.numeraire ?? null }];
+}));
+
+type Chain = NonNullable<ReturnType<typeof chains.get>>;
+
+// Every route takes ?chain=<chainId>, the first configured chain when it is omitted
+function getChain(req: express.Request, res: express.Response): Chain | null {
+  const chainId = req.query.chain === undefined ? chainConfigs[0].chainId : Number(req.query.chain);
+  const chain = chains.get(chainId);
+  if (!chain) {
+    res.status(400).json({ error: "Unknown chain" });
+    return null;
+  }
+  return chain;
+}
+
+function getRouter(chain: Chain, res: express.Response) {
+  if (!chain.router) {
+    res.status(400).json({ error: `No router configured for chain ${chain.chainId}` });
+  }
+  return chain.router;
+}
+
+// Pool and token lists are cached per chain until the indexer reports a change,
+// and only while the event listener is connected
+const poolsCache = new Map<number, unknown>();
+const tokensCache = new Map<number, unknown>();
+let listening = false;
+// Bumped on every change, a list read before it is not cached
+let cacheGeneration = 0;
+
+// Clients of the live feed, optionally following a single pool
+type Feed = { chainId: number; pool: string | null; res: express.Response };
+const feeds = new Set<Feed>();
+
+subscribeEvents(
+  (event: AmmEvent | CacheInvalidation) => {
+    cacheGeneration++;
+    poolsCache.delete(event.chainId);
+    if (event.type === "pool" || event.type === "invalidate") tokensCache.delete(event.chainId);
+    if (event.type === "invalidate") return;
+
+    const message = `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+    for (const feed of feeds) {
+      if (feed.chainId !== event.chainId) continue;
+      if (feed.pool && feed.pool !== event.pool.toLowerCase()) continue;
+      feed.res.write(message);
+    }
+  },
+  (connected) => {
+    listening = connected;
+    cacheGeneration++;
+    poolsCache.clear();
+    tokensCache.clear();
+  }
+);
 
 // ===== EXISTING ENDPOINTS =====
 
+// Chains the API serves
+app.get("/chains", (req, res) => {
+  res.json([...chains.values()].map(({ chainId, name, router, numeraire }) => ({
+    chainId,
+    name,
+    router: router?.target ?? null,
+    numeraire
+  })));
+});
+
 app.get("/pools", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const cached = poolsCache.get(chain.chainId);
+    if (cached) return res.json(cached);
+    const generation = cacheGeneration;
+
     const pools = await prisma.pool.findMany({
+      where: { chainId: chain.chainId },
       include: {
         tokenA: {
           select: {
@@ -47,16 +131,19 @@ app.get("/pools", async (req, res) => {
         },
         liquidity: true,
         swaps: true,
+        reserveSnapshots: latestSnapshot,
       },
     });
 
-    res.json(
-      pools.map(pool => ({
-        ...pool,
-        tokenA: { ...pool.tokenA, decimals: pool.tokenA.decimals.toString() },
-        tokenB: { ...pool.tokenB, decimals: pool.tokenB.decimals.toString() },
-      }))
-    );
+    const body = pools.map(({ reserveSnapshots, ...pool }) => ({
+      ...pool,
+      reserves: getReserves(reserveSnapshots),
+      tokenA: { ...pool.tokenA, decimals: pool.tokenA.decimals.toString() },
+      tokenB: { ...pool.tokenB, decimals: pool.tokenB.decimals.toString() },
+    }));
+    if (listening && generation === cacheGeneration) poolsCache.set(chain.chainId, body);
+
+    res.json(body);
   } catch (err: any) {
     console.error("❌ Prisma error:", err);
     res.status(500).json({ error: "Failed to fetch pools", details: err.message });
@@ -65,14 +152,18 @@ app.get("/pools", async (req, res) => {
 
 app.get("/pool/:id", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
     const ID = Number(req.params.id);
-    const pool = await prisma.pool.findUnique({
-      where: { id: ID },
+    const pool = await prisma.pool.findFirst({
+      where: { id: ID, chainId: chain.chainId },
       include: {
         tokenA: true,
         tokenB: true,
-        swaps: { orderBy: { createdAt: "desc" }, take: 50 },
+        swaps: { orderBy: { timestamp: "desc" }, take: 50 },
         liquidity: true,
+        reserveSnapshots: latestSnapshot,
       },
     });
     
@@ -82,14 +173,14 @@ app.get("/pool/:id", async (req, res) => {
       });
     }
 
-    const reserveA = pool.liquidity.reduce((acc, l) => acc + Number(l.amountA), 0);
-    const reserveB = pool.liquidity.reduce((acc, l) => acc + Number(l.amountB), 0);
-    const tvl = reserveA + reserveB;
+    const { reserveSnapshots, ...details } = pool;
+    const [totals] = await getPoolTotals([pool.id]);
     
     res.json({
-      ...pool,
-      reserves: { reserveA, reserveB },
-      tvl,
+      ...details,
+      reserves: getReserves(reserveSnapshots),
+      tvl: totals.tvl,
+      volume24h: totals.volume24h,
       tokenA: { ...pool.tokenA, decimals: pool.tokenA.decimals.toString() },
       tokenB: { ...pool.tokenB, decimals: pool.tokenB.decimals.toString() },
     });
@@ -98,15 +189,93 @@ app.get("/pool/:id", async (req, res) => {
   }
 });
 
+// Reserve history of a pool, newest first
+app.get("/pool/:id/reserves", async (req, res) => {
+  try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const ID = Number(req.params.id);
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+
+    const snapshots = await prisma.reserveSnapshot.findMany({
+      where: { poolId: ID, pool: { chainId: chain.chainId } },
+      orderBy: [{ blockNumber: "desc" }, { logIndex: "desc" }],
+      take: limit,
+      select: {
+        reserveA: true,
+        reserveB: true,
+        blockNumber: true,
+        timestamp: true,
+        txHash: true
+      }
+    });
+
+    res.json(snapshots);
+  } catch (error) {
+    console.error("Reserve history error:", error);
+    res.status(500).json({ error: "Failed to fetch reserve history" });
+  }
+});
+
+// Hourly or daily pool activity from the rollup tables, newest first
+app.get("/pool/:id/history", async (req, res) => {
+  try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const ID = Number(req.params.id);
+    const limit = Math.min(parseInt(req.query.limit as string) || 24, 1000);
+    const where = { poolId: ID, pool: { chainId: chain.chainId } };
+    const query = { where, orderBy: { periodStart: "desc" as const }, take: limit };
+
+    if (req.query.interval === "day") {
+      return res.json(await prisma.poolDayData.findMany(query));
+    }
+    if (req.query.interval !== undefined && req.query.interval !== "hour") {
+      return res.status(400).json({ error: "interval must be hour or day" });
+    }
+    res.json(await prisma.poolHourData.findMany(query));
+  } catch (error) {
+    console.error("Pool history error:", error);
+    res.status(500).json({ error: "Failed to fetch pool history" });
+  }
+});
+
+// Daily activity of a token over all its pools, newest first
+app.get("/token/:address/history", async (req, res) => {
+  try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 30, 1000);
+    const days = await prisma.tokenDayData.findMany({
+      where: { token: { chainId: chain.chainId, address: req.params.address } },
+      orderBy: { periodStart: "desc" },
+      take: limit
+    });
+
+    res.json(days);
+  } catch (error) {
+    console.error("Token history error:", error);
+    res.status(500).json({ error: "Failed to fetch token history" });
+  }
+});
+
 // ===== NEW ROUTING ENDPOINTS =====
 
 // Get optimal swap path between two tokens
 app.get("/optimal-path/:tokenA/:tokenB", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+    const router = getRouter(chain, res);
+    if (!router) return;
+
     const { tokenA, tokenB } = req.params;
     const { amount = "1000000000000000000" } = req.query; // Default 1 ETH worth
 
-    const paths = await findOptimalPath(tokenA, tokenB, amount as string);
+    const paths = await findOptimalPath(chain.chainId, router, tokenA, tokenB, amount as string);
     
     res.json({
       direct: paths.direct,
@@ -123,6 +292,11 @@ app.get("/optimal-path/:tokenA/:tokenB", async (req, res) => {
 // Get multi-hop quote
 app.post("/multi-hop-quote", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+    const router = getRouter(chain, res);
+    if (!router) return;
+
     const { path, amountIn } = req.body;
     
     if (!Array.isArray(path) || path.length < 2) {
@@ -149,10 +323,13 @@ app.post("/multi-hop-quote", async (req, res) => {
 // Get all possible paths between tokens (with depth limit)
 app.get("/all-paths/:tokenA/:tokenB", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
     const { tokenA, tokenB } = req.params;
     const maxHops = Math.min(parseInt(req.query.maxHops as string) || 3, 4); // Limit to 4 hops max
     
-    const allPaths = await findAllPaths(tokenA, tokenB, maxHops);
+    const allPaths = await findAllPaths(chain.chainId, tokenA, tokenB, maxHops);
     
     res.json({
       tokenA,
@@ -170,18 +347,26 @@ app.get("/all-paths/:tokenA/:tokenB", async (req, res) => {
 // Path performance analytics
 app.get("/path-analytics/:tokenA/:tokenB", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
     const { tokenA, tokenB } = req.params;
     
     // Get historical swap data for these tokens
     const swaps = await prisma.swap.findMany({
       where: {
+        chainId: chain.chainId,
         OR: [
-          { tokenIn: tokenA, tokenOut: tokenB },
-          { tokenIn: tokenB, tokenOut: tokenA }
+          { tokenIn: { address: tokenA }, tokenOut: { address: tokenB } },
+          { tokenIn: { address: tokenB }, tokenOut: { address: tokenA } }
         ]
       },
-      include: { pool: { include: { tokenA: true, tokenB: true } } },
-      orderBy: { createdAt: 'desc' },
+      include: {
+        pool: { include: { tokenA: true, tokenB: true } },
+        tokenIn: true,
+        tokenOut: true
+      },
+      orderBy: { timestamp: 'desc' },
       take: 100
     });
 
@@ -189,8 +374,8 @@ app.get("/path-analytics/:tokenA/:tokenB", async (req, res) => {
     const analytics = {
       totalSwaps: swaps.length,
       popularPaths: getPopularPaths(swaps),
-      liquidityDistribution: await getLiquidityDistribution(tokenA, tokenB),
-      volumeByToken: getVolumeByToken(swaps)
+      liquidityDistribution: await getLiquidityDistribution(chain.chainId, tokenA, tokenB),
+      volumeByToken: await getVolumeByToken(chain.chainId, tokenA, tokenB)
     };
 
     res.json(analytics);
@@ -203,7 +388,15 @@ app.get("/path-analytics/:tokenA/:tokenB", async (req, res) => {
 // Get tokens for dropdown/search
 app.get("/tokens", async (req, res) => {
   try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const cached = tokensCache.get(chain.chainId);
+    if (cached) return res.json(cached);
+    const generation = cacheGeneration;
+
     const tokens = await prisma.token.findMany({
+      where: { chainId: chain.chainId },
       select: {
         id: true,
         address: true,
@@ -213,66 +406,87 @@ app.get("/tokens", async (req, res) => {
       }
     });
 
-    res.json(tokens.map(token => ({
+    const body = tokens.map(token => ({
       ...token,
       decimals: token.decimals.toString()
-    })));
+    }));
+    if (listening && generation === cacheGeneration) tokensCache.set(chain.chainId, body);
+
+    res.json(body);
   } catch (error) {
     console.error("Tokens fetch error:", error);
     res.status(500).json({ error: "Failed to fetch tokens" });
   }
 });
 
-// Get user portfolio (uncommented and fixed)
-app.get("/portfolio/:user", async (req, res) => {
+// Latest price of every priced token in the chain's numeraire, with the numeraire value of
+// the shallowest pool on its pricing path
+app.get("/prices", async (req, res) => {
   try {
-    const userAddress = req.params.user;
-    const positions = await prisma.liquidity.findMany({
-      where: { provider: userAddress },
-      include: {
-        pool: {
-          include: {
-            tokenA: true,
-            tokenB: true
-          }
-        }
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const tokens = await prisma.token.findMany({
+      where: { chainId: chain.chainId, prices: { some: {} } },
+      select: {
+        address: true,
+        symbol: true,
+        prices: { orderBy: { periodStart: "desc" }, take: 1 }
       }
     });
 
-    // Group positions by pool
-    const groupedPositions = new Map();
-    
-    positions.forEach(pos => {
-      const poolKey = `${pos.pool.tokenA.symbol}-${pos.pool.tokenB.symbol}`;
-      if (!groupedPositions.has(poolKey)) {
-        groupedPositions.set(poolKey, {
-          pool: poolKey,
-          poolId: pos.poolId,
-          tokenA: pos.pool.tokenA,
-          tokenB: pos.pool.tokenB,
-          totalAmountA: 0,
-          totalAmountB: 0,
-          positions: []
-        });
-      }
-      
-      const group = groupedPositions.get(poolKey);
-      group.totalAmountA += Number(pos.amountA);
-      group.totalAmountB += Number(pos.amountB);
-      group.positions.push(pos);
+    res.json({
+      numeraire: chain.numeraire,
+      prices: tokens.map(({ prices: [latest], ...token }) => ({
+        ...token,
+        price: latest.price,
+        depth: latest.depth,
+        blockNumber: latest.blockNumber,
+        periodStart: latest.periodStart
+      }))
     });
+  } catch (error) {
+    console.error("Prices fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch prices" });
+  }
+});
 
-    const formatted = Array.from(groupedPositions.values()).map(group => ({
-      pool: group.pool,
-      poolId: group.poolId,
-      tokenA: { ...group.tokenA, decimals: group.tokenA.decimals.toString() },
-      tokenB: { ...group.tokenB, decimals: group.tokenB.decimals.toString() },
-      liquidityProvided: {
-        tokenA: group.totalAmountA.toString(),
-        tokenB: group.totalAmountB.toString(),
-      },
-      positionsCount: group.positions.length
-    }));
+// Get user portfolio from current LP token balances
+app.get("/portfolio/:user", async (req, res) => {
+  try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    if (!ethers.isAddress(req.params.user)) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+    const userAddress = ethers.getAddress(req.params.user);
+
+    const positions = await prisma.lpPosition.findMany({
+      where: { holder: userAddress, NOT: { balance: "0" }, pool: { chainId: chain.chainId } },
+      include: { pool: { include: { tokenA: true, tokenB: true } } }
+    });
+    const shares = new Map((await getPositionShares(userAddress, positions.map(p => p.poolId))).map(s => [s.poolId, s]));
+
+    const formatted = positions.map(({ pool, ...position }) => {
+      const { share, underlyingA, underlyingB, valueUsd } = shares.get(pool.id)!;
+
+      return {
+        pool: `${pool.tokenA.symbol}-${pool.tokenB.symbol}`,
+        poolId: pool.id,
+        tokenA: { ...pool.tokenA, decimals: pool.tokenA.decimals.toString() },
+        tokenB: { ...pool.tokenB, decimals: pool.tokenB.decimals.toString() },
+        lpBalance: position.balance,
+        share,
+        underlying: {
+          tokenA: underlyingA,
+          tokenB: underlyingB
+        },
+        valueUsd,
+        firstBlock: position.firstBlock,
+        lastBlock: position.lastBlock
+      };
+    });
 
     res.json(formatted);
   } catch (error) {
@@ -281,10 +495,273 @@ app.get("/portfolio/:user", async (req, res) => {
   }
 });
 
+// Leaderboard of the accounts the indexer keeps, by numeraire volume or swap count
+app.get("/accounts", async (req, res) => {
+  try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const sort = req.query.sort ?? "volume";
+    if (sort !== "volume" && sort !== "swaps") {
+      return res.status(400).json({ error: "sort must be volume or swaps" });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
+
+    const accounts = await prisma.account.findMany({
+      where: { chainId: chain.chainId },
+      orderBy: sort === "swaps" ? { swapCount: "desc" } : { volume: "desc" },
+      take: limit
+    });
+
+    res.json(accounts);
+  } catch (error) {
+    console.error("Accounts fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch accounts" });
+  }
+});
+
+// Profile of an address: its activity totals and current LP positions
+app.get("/accounts/:address", async (req, res) => {
+  try {
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    if (!ethers.isAddress(req.params.address)) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+    const address = ethers.getAddress(req.params.address);
+
+    const account = await prisma.account.findUnique({
+      where: { chainId_address: { chainId: chain.chainId, address } }
+    });
+    if (!account) {
+      return res.status(404).json({ error: "Account not found" });
+    }
+
+    const positions = await prisma.lpPosition.findMany({
+      where: { holder: address, NOT: { balance: "0" }, pool: { chainId: chain.chainId } },
+      include: { pool: { include: { tokenA: true, tokenB: true } } }
+    });
+    const shares = new Map((await getPositionShares(address, positions.map(p => p.poolId))).map(s => [s.poolId, s]));
+
+    res.json({
+      ...account,
+      positions: positions.map(({ pool, ...position }) => {
+        const { share, valueUsd } = shares.get(pool.id)!;
+        return {
+          poolId: pool.id,
+          pool: pool.address,
+          pair: `${pool.tokenA.symbol}-${pool.tokenB.symbol}`,
+          lpBalance: position.balance,
+          share,
+          valueUsd,
+          firstBlock: position.firstBlock,
+          lastBlock: position.lastBlock
+        };
+      })
+    });
+  } catch (error) {
+    console.error("Account fetch error:", error);
+    res.status(500).json({ error: "Failed to fetch account" });
+  }
+});
+
+// ===== WEBHOOK ENDPOINTS =====
+
+// One API key per subscriber, WEBHOOK_API_KEYS="team-a:key-a,team-b:key-b"; keys are looked
+// up by their hash, so a guess is not compared with the stored keys character by character
+function hashKey(key: string) {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+const webhookKeys = new Map((process.env.WEBHOOK_API_KEYS ?? "").split(",").filter(entry => entry.indexOf(":") > 0).map(entry => {
+  const separator = entry.indexOf(":");
+  return [hashKey(entry.slice(separator + 1)), entry.slice(0, separator)] as const;
+}));
+
+// Webhook routes act for the subscriber of "Authorization: Bearer <key>" and only see its subscriptions
+function getSubscriber(req: express.Request, res: express.Response): string | null {
+  const key = /^Bearer (.+)$/.exec(req.get("authorization") ?? "")?.[1];
+  const subscriber = key ? webhookKeys.get(hashKey(key)) : undefined;
+  if (!subscriber) {
+    res.status(401).json({ error: "Missing or invalid API key" });
+    return null;
+  }
+  return subscriber;
+}
+
+// Subscribe to swaps, liquidity changes or new pools; the secret is only returned here
+app.post("/webhooks", async (req, res) => {
+  try {
+    const subscriber = getSubscriber(req, res);
+    if (!subscriber) return;
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const { url, events, pool, token, minAmount } = req.body;
+    if (typeof url !== "string") {
+      return res.status(400).json({ error: "Invalid url" });
+    }
+    // Only public hosts, the indexer must not be made to call into its own network
+    const urlError = await checkWebhookUrl(url);
+    if (urlError) {
+      return res.status(400).json({ error: urlError });
+    }
+    if (!Array.isArray(events) || events.length === 0 || !events.every(e => e in WebhookEvent)) {
+      return res.status(400).json({ error: `events must list ${Object.keys(WebhookEvent).join(", ")}` });
+    }
+    if ((pool && !ethers.isAddress(pool)) || (token && !ethers.isAddress(token))) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+    if (minAmount !== undefined && !/^\d+$/.test(String(minAmount))) {
+      return res.status(400).json({ error: "minAmount must be an integer amount in token units" });
+    }
+
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        chainId: chain.chainId,
+        subscriber,
+        url,
+        secret: crypto.randomBytes(32).toString("hex"),
+        events,
+        poolAddress: pool ? ethers.getAddress(pool) : null,
+        tokenAddress: token ? ethers.getAddress(token) : null,
+        minAmount: minAmount !== undefined ? String(minAmount) : null
+      }
+    });
+
+    res.status(201).json(subscription);
+  } catch (error) {
+    console.error("Webhook create error:", error);
+    res.status(500).json({ error: "Failed to create webhook" });
+  }
+});
+
+app.get("/webhooks", async (req, res) => {
+  try {
+    const subscriber = getSubscriber(req, res);
+    if (!subscriber) return;
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { chainId: chain.chainId, subscriber },
+      omit: { secret: true },
+      orderBy: { id: "asc" }
+    });
+
+    res.json(subscriptions);
+  } catch (error) {
+    console.error("Webhook list error:", error);
+    res.status(500).json({ error: "Failed to fetch webhooks" });
+  }
+});
+
+// Stop deliveries, past ones stay listed
+app.delete("/webhooks/:id", async (req, res) => {
+  try {
+    const subscriber = getSubscriber(req, res);
+    if (!subscriber) return;
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const { count } = await prisma.webhookSubscription.updateMany({
+      where: { id: Number(req.params.id), chainId: chain.chainId, subscriber },
+      data: { active: false }
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error("Webhook delete error:", error);
+    res.status(500).json({ error: "Failed to delete webhook" });
+  }
+});
+
+// Deliveries of a subscription, newest first, optionally by status (PENDING, DELIVERED, DEAD)
+app.get("/webhooks/:id/deliveries", async (req, res) => {
+  try {
+    const subscriber = getSubscriber(req, res);
+    if (!subscriber) return;
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const status = req.query.status as string | undefined;
+    if (status && !(status in DeliveryStatus)) {
+      return res.status(400).json({ error: "Invalid status" });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId: Number(req.params.id),
+        subscription: { chainId: chain.chainId, subscriber },
+        status: status as DeliveryStatus | undefined
+      },
+      orderBy: { id: "desc" },
+      take: limit
+    });
+
+    res.json(deliveries);
+  } catch (error) {
+    console.error("Webhook deliveries error:", error);
+    res.status(500).json({ error: "Failed to fetch deliveries" });
+  }
+});
+
+// Send a delivery again, dead-lettered ones included; the indexer picks it up on its next run
+app.post("/webhooks/deliveries/:id/redeliver", async (req, res) => {
+  try {
+    const subscriber = getSubscriber(req, res);
+    if (!subscriber) return;
+    const chain = getChain(req, res);
+    if (!chain) return;
+
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: Number(req.params.id), subscription: { chainId: chain.chainId, subscriber } },
+      data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date(), lastError: null }
+    });
+    if (count === 0) {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+
+    res.status(202).json({ id: Number(req.params.id), status: "PENDING" });
+  } catch (error) {
+    console.error("Redeliver error:", error);
+    res.status(500).json({ error: "Failed to redeliver" });
+  }
+});
+
+// Live feed of indexed swaps, liquidity changes, reserve updates and new pools as server-sent events
+app.get("/events", (req, res) => {
+  const chain = getChain(req, res);
+  if (!chain) return;
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+  res.write(": connected\n\n");
+
+  const pool = typeof req.query.pool === "string" ? req.query.pool.toLowerCase() : null;
+  const feed = { chainId: chain.chainId, pool, res };
+  feeds.add(feed);
+
+  // Comments keep proxies from closing an idle stream
+  const heartbeat = setInterval(() => res.write(": ping\n\n"), 30000);
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    feeds.delete(feed);
+  });
+});
+
 // ===== HELPER FUNCTIONS =====
 
 // Helper function: Find optimal path using graph search
-async function findOptimalPath(tokenA: string, tokenB: string, testAmount: string) {
+async function findOptimalPath(chainId: number, router: ethers.Contract, tokenA: string, tokenB: string, testAmount: string) {
   const paths = {
     direct: null as any,
     optimal: null as any,
@@ -294,6 +771,7 @@ async function findOptimalPath(tokenA: string, tokenB: string, testAmount: strin
 
   // Get all available pools from database
   const pools = await prisma.pool.findMany({
+    where: { chainId },
     include: { tokenA: true, tokenB: true }
   });
 
@@ -412,8 +890,9 @@ function findAllPathsBFS(graph: Map<string, string[]>, start: string, end: strin
 }
 
 // Find all paths (simplified version for the endpoint)
-async function findAllPaths(tokenA: string, tokenB: string, maxHops: number) {
+async function findAllPaths(chainId: number, tokenA: string, tokenB: string, maxHops: number) {
   const pools = await prisma.pool.findMany({
+    where: { chainId },
     include: { tokenA: true, tokenB: true }
   });
 
@@ -446,7 +925,7 @@ function getPopularPaths(swaps: any[]) {
   const pathCounts = new Map();
   
   for (const swap of swaps) {
-    const path = `${swap.tokenIn}->${swap.tokenOut}`;
+    const path = `${swap.tokenIn.symbol}->${swap.tokenOut.symbol}`;
     pathCounts.set(path, (pathCounts.get(path) || 0) + 1);
   }
   
@@ -456,28 +935,80 @@ function getPopularPaths(swaps: any[]) {
     .map(([path, count]) => ({ path, count }));
 }
 
-function getVolumeByToken(swaps: any[]) {
-  const volumeMap = new Map();
-  
-  for (const swap of swaps) {
-    const tokenIn = swap.tokenIn;
-    const tokenOut = swap.tokenOut;
-    const amountIn = Number(swap.amountIn);
-    const amountOut = Number(swap.amountOut);
-    
-    volumeMap.set(tokenIn, (volumeMap.get(tokenIn) || 0) + amountIn);
-    volumeMap.set(tokenOut, (volumeMap.get(tokenOut) || 0) + amountOut);
-  }
-  
-  return Array.from(volumeMap.entries())
-    .sort(([,a], [,b]) => (b as number) - (a as number))
-    .slice(0, 10)
-    .map(([token, volume]) => ({ token, volume }));
+// Volume of each token over all swaps between the pair, summed exactly in the database from the
+// hourly rollups of the pair's pools, which outlive archived swaps, and its USD value at the
+// price of every hour
+async function getVolumeByToken(chainId: number, tokenA: string, tokenB: string) {
+  return prisma.$queryRaw<{ token: string; volume: string; volumeUsd: number | null }[]>`
+    WITH hours AS (
+      SELECT p."tokenAId", h."volumeA", p."tokenBId", h."volumeB", h."periodStart" AS "hour"
+      FROM "PoolHourData" h
+      JOIN "Pool" p ON p."id" = h."poolId"
+      JOIN "Token" a ON a."id" = p."tokenAId"
+      JOIN "Token" b ON b."id" = p."tokenBId"
+      WHERE p."chainId" = ${chainId}
+        AND ((a."address" = ${tokenA} AND b."address" = ${tokenB})
+          OR (a."address" = ${tokenB} AND b."address" = ${tokenA}))
+    ), moved AS (
+      SELECT "tokenAId" AS "tokenId", "volumeA" AS "amount", "hour" FROM hours
+      UNION ALL
+      SELECT "tokenBId", "volumeB", "hour" FROM hours
+    )
+    SELECT t."address" AS "token", SUM(m."amount")::text AS "volume",
+      SUM(m."amount" / power(10::numeric, t."decimals") * ${priceAt(Prisma.raw('m."tokenId"'), Prisma.raw('m."hour"'))})::float8 AS "volumeUsd"
+    FROM moved m
+    JOIN "Token" t ON t."id" = m."tokenId"
+    GROUP BY t."address"
+    ORDER BY SUM(m."amount") DESC
+    LIMIT 10
+  `;
 }
 
-async function getLiquidityDistribution(tokenA: string, tokenB: string) {
+// USD value of the latest reserves, swap volume of the last 24 hours at the price of each hour
+// (half of what both sides moved) and the number of distinct liquidity providers per pool;
+// values are null while a token has no price
+async function getPoolTotals(poolIds: number[]) {
+  if (poolIds.length === 0) return [];
+  return prisma.$queryRaw<{ poolId: number; tvl: number | null; volume24h: number | null; providers: number }[]>`
+    SELECT p."id" AS "poolId",
+      (COALESCE(r."reserveA", 0) / power(10::numeric, ta."decimals") * ${priceAt(Prisma.raw('p."tokenAId"'))}
+        + COALESCE(r."reserveB", 0) / power(10::numeric, tb."decimals") * ${priceAt(Prisma.raw('p."tokenBId"'))})::float8 AS "tvl",
+      (SELECT SUM(
+          h."volumeA" / power(10::numeric, ta."decimals") * ${priceAt(Prisma.raw('p."tokenAId"'), Prisma.raw('h."periodStart"'))}
+          + h."volumeB" / power(10::numeric, tb."decimals") * ${priceAt(Prisma.raw('p."tokenBId"'), Prisma.raw('h."periodStart"'))}
+        ) / 2
+        FROM "PoolHourData" h
+        WHERE h."poolId" = p."id" AND h."periodStart" >= now() - interval '24 hours')::float8 AS "volume24h",
+      (SELECT COUNT(DISTINCT l."provider") FROM "Liquidity" l WHERE l."poolId" = p."id")::int AS "providers"
+    FROM "Pool" p
+    JOIN "Token" ta ON ta."id" = p."tokenAId"
+    JOIN "Token" tb ON tb."id" = p."tokenBId"
+    LEFT JOIN LATERAL (
+      SELECT s."reserveA"::numeric AS "reserveA", s."reserveB"::numeric AS "reserveB"
+      FROM "ReserveSnapshot" s
+      WHERE s."poolId" = p."id"
+      ORDER BY s."blockNumber" DESC, s."logIndex" DESC
+      LIMIT 1
+    ) r ON true
+    WHERE p."id" IN (${Prisma.join(poolIds)})
+  `;
+}
+
+// Price of a token in the chain's numeraire, the latest or the one of the hour at a time,
+// from the table the indexer derives from pool reserves
+function priceAt(tokenId: Prisma.Sql, time?: Prisma.Sql) {
+  return Prisma.sql`(
+    SELECT tp."price" FROM "TokenPrice" tp
+    WHERE tp."tokenId" = ${tokenId} ${time ? Prisma.sql`AND tp."periodStart" <= ${time}` : Prisma.empty}
+    ORDER BY tp."periodStart" DESC
+    LIMIT 1
+  )`;
+}
+
+async function getLiquidityDistribution(chainId: number, tokenA: string, tokenB: string) {
   const pools = await prisma.pool.findMany({
     where: {
+      chainId,
       OR: [
         { tokenA: { address: tokenA } },
         { tokenB: { address: tokenA } },
@@ -487,31 +1018,93 @@ async function getLiquidityDistribution(tokenA: string, tokenB: string) {
     },
     include: { 
       tokenA: true, 
-      tokenB: true, 
-      liquidity: true 
+      tokenB: true
     }
   });
+  const totals = new Map((await getPoolTotals(pools.map(pool => pool.id))).map(t => [t.poolId, t]));
 
-  return pools.map(pool => ({
-    poolAddress: pool.address,
-    pair: `${pool.tokenA.symbol}/${pool.tokenB.symbol}`,
-    totalLiquidity: pool.liquidity.reduce((acc, l) => 
-      acc + Math.abs(Number(l.amountA)) + Math.abs(Number(l.amountB)), 0
-    ),
-    liquidityProviders: pool.liquidity.length
-  }));
+  return pools.map(pool => {
+    const { tvl, providers } = totals.get(pool.id)!;
+    return {
+      poolAddress: pool.address,
+      pair: `${pool.tokenA.symbol}/${pool.tokenB.symbol}`,
+      totalLiquidity: tvl,
+      liquidityProviders: providers
+    };
+  });
+}
+
+// A holder's share of each pool's LP supply, what every holder owns together, the reserves
+// it is worth, rounded down like the pair contract's burn, and their USD value
+async function getPositionShares(holder: string, poolIds: number[]) {
+  if (poolIds.length === 0) return [];
+  return prisma.$queryRaw<{ poolId: number; share: number; underlyingA: string; underlyingB: string; valueUsd: number | null }[]>`
+    SELECT u."poolId", u."share",
+      u."underlyingA"::text AS "underlyingA",
+      u."underlyingB"::text AS "underlyingB",
+      (u."underlyingA" / power(10::numeric, ta."decimals") * ${priceAt(Prisma.raw('p."tokenAId"'))}
+        + u."underlyingB" / power(10::numeric, tb."decimals") * ${priceAt(Prisma.raw('p."tokenBId"'))})::float8 AS "valueUsd"
+    FROM (
+      SELECT h."poolId",
+        COALESCE(h."balance"::numeric / NULLIF(s."supply", 0), 0)::float8 AS "share",
+        COALESCE(div(COALESCE(r."reserveA", 0) * h."balance"::numeric, NULLIF(s."supply", 0)), 0) AS "underlyingA",
+        COALESCE(div(COALESCE(r."reserveB", 0) * h."balance"::numeric, NULLIF(s."supply", 0)), 0) AS "underlyingB"
+      FROM "LpPosition" h
+      CROSS JOIN LATERAL (
+        SELECT SUM(a."balance"::numeric) AS "supply" FROM "LpPosition" a WHERE a."poolId" = h."poolId"
+      ) s
+      LEFT JOIN LATERAL (
+        SELECT x."reserveA"::numeric AS "reserveA", x."reserveB"::numeric AS "reserveB"
+        FROM "ReserveSnapshot" x
+        WHERE x."poolId" = h."poolId"
+        ORDER BY x."blockNumber" DESC, x."logIndex" DESC
+        LIMIT 1
+      ) r ON true
+      WHERE h."holder" = ${holder} AND h."poolId" IN (${Prisma.join(poolIds)})
+    ) u
+    JOIN "Pool" p ON p."id" = u."poolId"
+    JOIN "Token" ta ON ta."id" = p."tokenAId"
+    JOIN "Token" tb ON tb."id" = p."tokenBId"
+  `;
+}
+
+// Reserves come from the pool's most recent Sync event
+const latestSnapshot = {
+  orderBy: [{ blockNumber: "desc" as const }, { logIndex: "desc" as const }],
+  take: 1
+};
+
+function getReserves(snapshots: { reserveA: string; reserveB: string }[]) {
+  const [latest] = snapshots;
+  return {
+    reserveA: latest?.reserveA ?? "0",
+    reserveB: latest?.reserveB ?? "0"
+  };
 }
 
 // ===== SERVER START =====
 app.listen(3000, () => {
   console.log("Backend Server Started on port 3000");
-  console.log("Available endpoints:");
+  console.log("Available endpoints (all accept ?chain=<chainId>):");
+  console.log("- GET /chains - List configured chains");
   console.log("- GET /pools - List all pools");
   console.log("- GET /pool/:id - Get specific pool details");
+  console.log("- GET /pool/:id/reserves - Get pool reserve history");
+  console.log("- GET /pool/:id/history?interval=hour|day - Get hourly or daily pool activity");
+  console.log("- GET /token/:address/history - Get daily token activity");
   console.log("- GET /tokens - List all tokens");
+  console.log("- GET /prices - Latest token prices in the chain's numeraire");
+  console.log("- GET /events?pool=<address> - Live feed of indexed events (server-sent events)");
   console.log("- GET /portfolio/:user - Get user's liquidity positions");
+  console.log("- GET /accounts?sort=volume|swaps - Account leaderboard");
+  console.log("- GET /accounts/:address - Account statistics and LP positions");
   console.log("- GET /optimal-path/:tokenA/:tokenB - Find optimal swap path");
   console.log("- POST /multi-hop-quote - Get multi-hop swap quote");
   console.log("- GET /all-paths/:tokenA/:tokenB - Find all possible paths");
   console.log("- GET /path-analytics/:tokenA/:tokenB - Get path analytics");
+  console.log("- POST /webhooks - Subscribe to pool events");
+  console.log("- GET /webhooks - List webhook subscriptions");
+  console.log("- DELETE /webhooks/:id - Deactivate a webhook");
+  console.log("- GET /webhooks/:id/deliveries - List deliveries of a webhook");
+  console.log("- POST /webhooks/deliveries/:id/redeliver - Redeliver a webhook payload");
 });
\ No newline at end of file
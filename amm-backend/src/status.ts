@@ -0,0 +1,218 @@
+import express from "express";
+import { prisma, provider, factory, chain } from "./clients.js";
+import { FACTORY_STREAM, PAIR_STREAM, loadCheckpoints } from "./checkpoints.js";
+import { getBlockTimestamp } from "./blocks.js";
+import { getEventCounts, getWriteStats } from "./metrics.js";
+import { isLeader } from "./leader.js";
+
+// port of the indexer's own status server, separate from the API server
+const STATUS_PORT = Number(process.env.STATUS_PORT ?? 9464);
+
+type StreamStatus = {
+  address: string;
+  lastIndexedBlock: number | null;
+  lagBlocks: number | null;
+  lagSeconds: number | null;
+};
+
+// endpoint URLs often carry API keys, only the host is reported
+const endpointHost = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+const streamStatus = async (
+  address: string,
+  checkpoint: number | undefined,
+  head: number,
+  headTime: Date
+): Promise<StreamStatus> => {
+  if (checkpoint === undefined) {
+    return {
+      address,
+      lastIndexedBlock: null,
+      lagBlocks: null,
+      lagSeconds: null,
+    };
+  }
+  const indexedTime = await getBlockTimestamp(checkpoint);
+  return {
+    address,
+    lastIndexedBlock: checkpoint,
+    lagBlocks: Math.max(0, head - checkpoint),
+    lagSeconds: Math.max(
+      0,
+      (headTime.getTime() - indexedTime.getTime()) / 1000
+    ),
+  };
+};
+
+const collectStatus = async () => {
+  const head = await provider.getBlockNumber();
+  const headTime = await getBlockTimestamp(head);
+  const checkpoints = await loadCheckpoints();
+  const factoryAddress = await factory.getAddress();
+  const pools = await prisma.pool.findMany({
+    where: { chainId: chain.chainId },
+    select: { address: true },
+  });
+
+  return {
+    chainId: chain.chainId,
+    chain: chain.name,
+    leader: isLeader(),
+    chainHead: head,
+    chainHeadTime: headTime,
+    factory: await streamStatus(
+      factoryAddress,
+      checkpoints.get(factoryAddress, FACTORY_STREAM),
+      head,
+      headTime
+    ),
+    pools: await Promise.all(
+      pools.map((pool) =>
+        streamStatus(
+          pool.address,
+          checkpoints.get(pool.address, PAIR_STREAM),
+          head,
+          headTime
+        )
+      )
+    ),
+    events: getEventCounts(),
+    rpc: provider.endpoints.map((endpoint) => ({
+      endpoint: endpointHost(endpoint.url),
+      errors: endpoint.errors,
+      head: endpoint.head,
+      healthy: endpoint.retryAt <= Date.now(),
+    })),
+    dbWrites: getWriteStats(),
+  };
+};
+
+type Status = Awaited<ReturnType<typeof collectStatus>>;
+
+// Prometheus text exposition format
+const toPrometheus = (status: Status) => {
+  const lines: string[] = [];
+  const metric = (
+    name: string,
+    type: "gauge" | "counter",
+    help: string,
+    samples: [Record<string, string | number>, number | null][]
+  ) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    for (const [labels, value] of samples) {
+      if (value === null) continue;
+      const labelText = Object.entries(labels)
+        .map(([key, label]) => `${key}="${label}"`)
+        .join(",");
+      lines.push(`${name}${labelText ? `{${labelText}}` : ""} ${value}`);
+    }
+  };
+  // a summary without quantiles, its _sum and _count samples belong to the one family
+  const summary = (name: string, help: string, sum: number, count: number) => {
+    lines.push(
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} summary`,
+      `${name}_sum ${sum}`,
+      `${name}_count ${count}`
+    );
+  };
+
+  const streams = [
+    { stream: FACTORY_STREAM, ...status.factory },
+    ...status.pools.map((pool) => ({ stream: PAIR_STREAM, ...pool })),
+  ];
+
+  metric(
+    "amm_indexer_leader",
+    "gauge",
+    "1 when this replica holds the leader lock",
+    [[{}, status.leader ? 1 : 0]]
+  );
+  metric(
+    "amm_indexer_chain_head",
+    "gauge",
+    "Latest block reported by the RPC",
+    [[{}, status.chainHead]]
+  );
+  metric(
+    "amm_indexer_last_indexed_block",
+    "gauge",
+    "Last block committed per stream",
+    streams.map((s) => [
+      { stream: s.stream, address: s.address },
+      s.lastIndexedBlock,
+    ])
+  );
+  metric(
+    "amm_indexer_lag_blocks",
+    "gauge",
+    "Blocks between the chain head and the last committed block",
+    streams.map((s) => [{ stream: s.stream, address: s.address }, s.lagBlocks])
+  );
+  metric(
+    "amm_indexer_lag_seconds",
+    "gauge",
+    "Block time between the chain head and the last committed block",
+    streams.map((s) => [{ stream: s.stream, address: s.address }, s.lagSeconds])
+  );
+  metric(
+    "amm_indexer_events_total",
+    "counter",
+    "Events committed since start, by type",
+    Object.entries(status.events).map(([type, count]) => [{ type }, count])
+  );
+  metric(
+    "amm_indexer_rpc_errors_total",
+    "counter",
+    "Failed requests and health checks per RPC endpoint",
+    status.rpc.map((rpc) => [{ endpoint: rpc.endpoint }, rpc.errors])
+  );
+  summary(
+    "amm_indexer_db_write_seconds",
+    "Duration of committed write transactions",
+    status.dbWrites.totalMs / 1000,
+    status.dbWrites.count
+  );
+  metric(
+    "amm_indexer_db_write_max_seconds",
+    "gauge",
+    "Slowest committed write transaction",
+    [[{}, status.dbWrites.maxMs / 1000]]
+  );
+
+  return lines.join("\n") + "\n";
+};
+
+export const startStatusServer = () => {
+  const app = express();
+
+  app.get("/status", async (req, res) => {
+    try {
+      res.json(await collectStatus());
+    } catch (error) {
+      console.error("Status error:", error);
+      res.status(500).json({ error: "Failed to collect indexer status" });
+    }
+  });
+
+  app.get("/metrics", async (req, res) => {
+    try {
+      res
+        .type("text/plain; version=0.0.4")
+        .send(toPrometheus(await collectStatus()));
+    } catch (error) {
+      console.error("Metrics error:", error);
+      res.status(500).send("Failed to collect indexer metrics\n");
+    }
+  });
+
+  app.listen(STATUS_PORT, () => {
+    console.log(`Indexer status on port ${STATUS_PORT} (/status, /metrics)`);
+  });
+};
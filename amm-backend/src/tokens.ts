@@ -0,0 +1,164 @@
+import { ethers } from "ethers";
+import { prisma, provider, chainId } from "./clients.js";
+import { publishInvalidation } from "./events.js";
+
+import ERC20ABI from "./abi/ERC20.json" with { type: "json" };
+
+const erc20Interface = new ethers.Interface(ERC20ABI);
+
+// transport errors are retried with a growing delay, a revert is final
+const ATTEMPTS = 3;
+const RETRY_DELAY = 1_000;
+
+// decimals assumed for a token that does not report them
+const DEFAULT_DECIMALS = 18n;
+
+// unverified tokens are retried on every run, verified ones once they are this old
+const REFRESH_INTERVAL = Number(
+  process.env.TOKEN_REFRESH_INTERVAL_MS ?? 10 * 60_000
+);
+const MAX_METADATA_AGE = Number(
+  process.env.TOKEN_METADATA_MAX_AGE_MS ?? 7 * 24 * 3600_000
+);
+const REFRESH_BATCH_SIZE = 100;
+
+export type TokenMeta = {
+  symbol: string;
+  name: string | null;
+  decimals: bigint;
+  // false when symbol or decimals could not be read and placeholders were stored
+  verified: boolean;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// raw return data of a no-argument view call, null when the token reverts or has no such function
+const callToken = async (address: string, method: string) => {
+  const data = erc20Interface.encodeFunctionData(method);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const result = await provider.call({ to: address, data });
+      return result === "0x" ? null : result;
+    } catch (err) {
+      if (ethers.isError(err, "CALL_EXCEPTION")) return null;
+      if (attempt === ATTEMPTS) {
+        console.warn(`Token ${address} ${method}() failed:`, err);
+        return null;
+      }
+      await sleep(RETRY_DELAY * attempt);
+    }
+  }
+};
+
+// ABI string, or bytes32 as returned by tokens like MKR
+const decodeText = (data: string | null) => {
+  if (!data) return null;
+
+  let text: string | null = null;
+  try {
+    [text] = ethers.AbiCoder.defaultAbiCoder().decode(["string"], data);
+  } catch {
+    if (ethers.dataLength(data) === 32) {
+      try {
+        text = ethers.toUtf8String(data);
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  const trimmed = text?.replace(/\0/g, "").trim();
+  return trimmed ? trimmed : null;
+};
+
+const decodeDecimals = (data: string | null) => {
+  if (!data || ethers.dataLength(data) < 32) return null;
+  const decimals = ethers.toBigInt(ethers.dataSlice(data, 0, 32));
+  return decimals <= 255n ? decimals : null;
+};
+
+// read symbol, name and decimals, falling back to placeholders instead of failing
+export const resolveTokenMeta = async (address: string): Promise<TokenMeta> => {
+  const [symbol, name, decimals] = await Promise.all([
+    callToken(address, "symbol").then(decodeText),
+    callToken(address, "name").then(decodeText),
+    callToken(address, "decimals").then(decodeDecimals),
+  ]);
+
+  const verified = symbol !== null && decimals !== null;
+  if (!verified) {
+    console.warn(`Unverified metadata for token ${address}`);
+  }
+
+  return {
+    symbol: symbol ?? address.slice(0, 8),
+    name,
+    decimals: decimals ?? DEFAULT_DECIMALS,
+    verified,
+  };
+};
+
+// re-read tokens stored with placeholders, and verified ones whose metadata is old
+export const refreshTokenMetadata = async () => {
+  const now = Date.now();
+  const stale = await prisma.token.findMany({
+    where: {
+      chainId,
+      OR: [
+        { metadataVerified: false },
+        { metadataCheckedAt: { lt: new Date(now - MAX_METADATA_AGE) } },
+      ],
+    },
+    orderBy: { metadataCheckedAt: "asc" },
+    take: REFRESH_BATCH_SIZE,
+  });
+
+  let verified = 0;
+  let changed = 0;
+  for (const token of stale) {
+    const meta = await resolveTokenMeta(token.address);
+
+    // placeholders never overwrite metadata that was read before
+    const data =
+      meta.verified || !token.metadataVerified
+        ? {
+            symbol: meta.symbol,
+            name: meta.name,
+            decimals: meta.decimals,
+            metadataVerified: meta.verified,
+          }
+        : {};
+    await prisma.token.update({
+      where: { id: token.id },
+      data: { ...data, metadataCheckedAt: new Date() },
+    });
+
+    if (meta.verified && !token.metadataVerified) verified++;
+    if (
+      "symbol" in data &&
+      (data.symbol !== token.symbol ||
+        data.name !== token.name ||
+        data.decimals !== token.decimals)
+    ) {
+      changed++;
+    }
+  }
+
+  // symbols and decimals are part of the API's cached lists
+  if (changed > 0) await publishInvalidation(prisma, chainId);
+
+  if (stale.length > 0) {
+    console.log(
+      `Refreshed metadata of ${stale.length} tokens, ${verified} newly verified`
+    );
+  }
+};
+
+export const startMetadataRefresh = () => {
+  setInterval(() => {
+    refreshTokenMetadata().catch((err) =>
+      console.error("Token metadata refresh error:", err)
+    );
+  }, REFRESH_INTERVAL).unref();
+};
@@ -0,0 +1,61 @@
+import { parseArgs } from "node:util";
+import { ethers } from "ethers";
+import { prisma } from "./clients.js";
+import { formatDrift, verifyReserves } from "./drift.js";
+
+// usage: [CHAIN_ID=N] npm run verify:reserves -- [--pool 0x..] [--sample 10] [--blocks 5] [--step 100] [--threshold 0.001]
+// exits with 1 when any pool drifts more than the threshold, or a --pool is unknown or has
+// nothing indexed to check, so it can back an alert
+const { values } = parseArgs({
+  options: {
+    pool: { type: "string", multiple: true },
+    sample: { type: "string" },
+    blocks: { type: "string", default: "5" },
+    step: { type: "string", default: "100" },
+    threshold: { type: "string", default: "0" },
+  },
+});
+
+async function main() {
+  const blocks = Number(values.blocks);
+  if (!Number.isInteger(blocks) || blocks < 1) {
+    throw new Error("--blocks must be a whole number of at least 1");
+  }
+  const threshold = Number(values.threshold);
+  // pools are stored checksummed
+  const pools = values.pool?.map((pool) => ethers.getAddress(pool));
+  const { drifts, skipped, unknown } = await verifyReserves({
+    pools,
+    sample: values.sample !== undefined ? Number(values.sample) : undefined,
+    blocks,
+    step: Number(values.step),
+  });
+
+  let failed = 0;
+  for (const drift of drifts) {
+    const status = drift.drift > threshold ? "DRIFT" : "ok";
+    if (status === "DRIFT") failed++;
+    console.log(`[${status}] ${formatDrift(drift)}`);
+  }
+  for (const pool of skipped) {
+    console.log(`[skipped] ${pool} has no checkpoint yet`);
+  }
+  for (const pool of unknown) {
+    console.log(`[unknown] ${pool} is not an indexed pool`);
+  }
+  console.log(
+    `Checked ${drifts.length} pools, ${failed} above a drift of ${threshold}, skipped ${skipped.length}` +
+      (unknown.length > 0 ? `, ${unknown.length} unknown` : "")
+  );
+
+  // a requested pool that was not checked must not pass as clean
+  const unchecked = pools ? skipped.length + unknown.length : 0;
+  if (failed > 0 || unchecked > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 2;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,241 @@
+import crypto from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import type { Prisma, WebhookEvent, WebhookSubscription } from "@prisma/client";
+import { prisma, chainId, type Db } from "./clients.js";
+import { checkWebhookUrl, publicLookup } from "./hosts.js";
+
+// subscriptions are re-read this often, new ones apply from the next event after that
+const SUBSCRIPTION_TTL = 30_000;
+
+// delivery worker: how often it looks for due deliveries and how many it sends per run
+const DELIVERY_INTERVAL = Number(process.env.WEBHOOK_INTERVAL_MS ?? 2000);
+const DELIVERY_BATCH_SIZE = 20;
+const REQUEST_TIMEOUT = 10_000;
+
+// a failed delivery is retried after a delay doubling from BASE_BACKOFF up to MAX_BACKOFF,
+// and dead-lettered after MAX_ATTEMPTS
+const MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8);
+const BASE_BACKOFF = 10_000;
+const MAX_BACKOFF = 3600_000;
+
+// what an event offers to the subscription filters
+export type WebhookMatch = {
+  pool: string;
+  tokens: string[];
+  amounts: { token: string; amount: string }[];
+};
+
+export type WebhookPosition = {
+  txHash: string;
+  blockNumber: number;
+  logIndex: number;
+  // block time, compared with the subscriptions' creation
+  timestamp: Date;
+};
+
+let subscriptions: WebhookSubscription[] = [];
+let loadedAt = 0;
+
+const activeSubscriptions = async (db: Db) => {
+  if (Date.now() - loadedAt > SUBSCRIPTION_TTL) {
+    subscriptions = await db.webhookSubscription.findMany({
+      where: { chainId, active: true },
+    });
+    loadedAt = Date.now();
+  }
+  return subscriptions;
+};
+
+const sameAddress = (a: string, b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+const matches = (subscription: WebhookSubscription, match: WebhookMatch) => {
+  if (
+    subscription.poolAddress &&
+    !sameAddress(subscription.poolAddress, match.pool)
+  ) {
+    return false;
+  }
+
+  const token = subscription.tokenAddress;
+  if (token && !match.tokens.some((t) => sameAddress(t, token))) return false;
+
+  if (subscription.minAmount && match.amounts.length > 0) {
+    const amounts = match.amounts
+      .filter((a) => !token || sameAddress(a.token, token))
+      .map((a) => BigInt(a.amount));
+    const largest = amounts.reduce((max, a) => (a > max ? a : max), 0n);
+    if (largest < BigInt(subscription.minAmount)) return false;
+  }
+
+  return true;
+};
+
+// the subscriptions an event may need, without a query per event when there are none
+export const hasSubscribers = async (db: Db, event: WebhookEvent) =>
+  (await activeSubscriptions(db)).some((s) => s.events.includes(event));
+
+// queue a payload for every matching subscription, inside the transaction of the event;
+// a replayed event is not queued twice, and history a backfill or replay ingests is not
+// queued for subscriptions created after it happened
+export const enqueueWebhooks = async (
+  db: Db,
+  event: WebhookEvent,
+  position: WebhookPosition,
+  match: WebhookMatch,
+  data: Prisma.InputJsonObject
+) => {
+  const targets = (await activeSubscriptions(db)).filter(
+    (s) =>
+      s.events.includes(event) &&
+      s.createdAt <= position.timestamp &&
+      matches(s, match)
+  );
+  if (targets.length === 0) return;
+
+  const { txHash, blockNumber, logIndex } = position;
+  const payload = {
+    event,
+    chainId,
+    pool: match.pool,
+    txHash,
+    blockNumber,
+    logIndex,
+    data,
+  };
+  await db.webhookDelivery.createMany({
+    data: targets.map((subscription) => ({
+      subscriptionId: subscription.id,
+      event,
+      payload,
+      txHash,
+      blockNumber,
+      logIndex,
+    })),
+    skipDuplicates: true,
+  });
+};
+
+// receivers recompute HMAC-SHA256(secret, "<timestamp>.<body>") and compare
+const sign = (secret: string, timestamp: string, body: string) =>
+  crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+
+// POST over a connection to a checked address, resolving to the response status; redirects
+// are not followed, they could lead to a host the checks would refuse
+const post = (url: string, headers: Record<string, string>, body: string) =>
+  new Promise<number>((resolve, reject) => {
+    const request = (url.startsWith("https:") ? https : http).request(
+      url,
+      {
+        method: "POST",
+        headers,
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      },
+      (response) => {
+        response.resume();
+        resolve(response.statusCode!);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+
+const deliver = async (
+  delivery: Prisma.WebhookDeliveryGetPayload<{
+    include: { subscription: true };
+  }>
+) => {
+  const body = JSON.stringify({
+    id: delivery.id,
+    ...(delivery.payload as object),
+  });
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  let responseStatus: number | null = null;
+  // a host that now resolves to a non-public address fails the attempt like a down one
+  let error = await checkWebhookUrl(delivery.subscription.url);
+  if (!error) {
+    try {
+      responseStatus = await post(
+        delivery.subscription.url,
+        {
+          "content-type": "application/json",
+          "x-webhook-id": String(delivery.id),
+          "x-webhook-timestamp": timestamp,
+          "x-webhook-signature": `sha256=${sign(delivery.subscription.secret, timestamp, body)}`,
+        },
+        body
+      );
+      if (responseStatus < 200 || responseStatus >= 300) {
+        error = `HTTP ${responseStatus}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const attempts = delivery.attempts + 1;
+  if (!error) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: "DELIVERED",
+        attempts,
+        responseStatus,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  const dead = attempts >= MAX_ATTEMPTS;
+  const backoff = Math.min(BASE_BACKOFF * 2 ** (attempts - 1), MAX_BACKOFF);
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: dead ? "DEAD" : "PENDING",
+      attempts,
+      responseStatus,
+      lastError: error,
+      nextAttemptAt: new Date(Date.now() + backoff),
+    },
+  });
+  if (dead) {
+    console.warn(
+      `Webhook delivery ${delivery.id} dead after ${attempts} attempts: ${error}`
+    );
+  }
+};
+
+const deliverDue = async () => {
+  const due = await prisma.webhookDelivery.findMany({
+    where: {
+      status: "PENDING",
+      nextAttemptAt: { lte: new Date() },
+      subscription: { chainId, active: true },
+    },
+    include: { subscription: true },
+    orderBy: { id: "asc" },
+    take: DELIVERY_BATCH_SIZE,
+  });
+  await Promise.all(due.map(deliver));
+};
+
+// runs in the leader, deliveries of one run finish before the next starts
+export const startWebhookDelivery = () => {
+  const run = async () => {
+    try {
+      await deliverDue();
+    } catch (err) {
+      console.error("Webhook delivery error:", err);
+    }
+    setTimeout(run, DELIVERY_INTERVAL).unref();
+  };
+  setTimeout(run, DELIVERY_INTERVAL).unref();
+};
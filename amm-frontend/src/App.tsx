@@ -25,19 +25,28 @@ interface Pool {
   tokenA: Token;
   tokenB: Token;
   liquidity: Array<{
+    action: "ADD" | "REMOVE";
     amountA: string;
     amountB: string;
+    liquidity: string;
     provider: string;
-    createdAt: string;
+    recipient: string | null;
+    txOrigin: string;
+    timestamp: string;
   }>;
   swaps?: Array<{
     trader: string;
     amountIn: string;
     amountOut: string;
-    tokenIn: string;
-    tokenOut: string;
-    createdAt: string;
+    tokenInId: number;
+    tokenOutId: number;
+    recipient: string;
+    timestamp: string;
   }>;
+  reserves?: {
+    reserveA: string;
+    reserveB: string;
+  };
 }
 
 const zero = (v = 0n) => v === 0n;
@@ -110,15 +119,9 @@ export default function App() {
     const tokenBDecimals = typeof pool.tokenB.decimals === 'string' ? 
       parseInt(pool.tokenB.decimals) : pool.tokenB.decimals;
       
-    const reserveA = pool.liquidity.reduce((acc, l) => {
-      const amount = parseFloat(l.amountA);
-      return acc + (isNaN(amount) ? 0 : amount);
-    }, 0);
-    
-    const reserveB = pool.liquidity.reduce((acc, l) => {
-      const amount = parseFloat(l.amountB);
-      return acc + (isNaN(amount) ? 0 : amount);
-    }, 0);
+    // reserves come from the latest Sync snapshot indexed by the backend
+    const reserveA = parseFloat(pool.reserves?.reserveA ?? "0");
+    const reserveB = parseFloat(pool.reserves?.reserveB ?? "0");
     
     const totalSwaps = pool.swaps?.length || 0;
     
@@ -913,19 +916,19 @@ export default function App() {
                                     {swap.trader.slice(0, 6)}...{swap.trader.slice(-4)}
                                   </td>
                                   <td className="p-3">
-                                    {swap.tokenIn === 'token0' ? selectedPool.tokenA.symbol : selectedPool.tokenB.symbol}
+                                    {swap.tokenInId === selectedPool.tokenA.id ? selectedPool.tokenA.symbol : selectedPool.tokenB.symbol}
                                   </td>
                                   <td className="p-3">
-                                    {parseFloat(swap.amountIn as string) / Math.pow(10, swap.tokenIn === 'token0' ? Number(selectedPool.tokenA.decimals) : Number(selectedPool.tokenB.decimals))}
+                                    {parseFloat(swap.amountIn as string) / Math.pow(10, swap.tokenInId === selectedPool.tokenA.id ? Number(selectedPool.tokenA.decimals) : Number(selectedPool.tokenB.decimals))}
                                   </td>
                                   <td className="p-3">
-                                    {swap.tokenOut === 'token0' ? selectedPool.tokenA.symbol : selectedPool.tokenB.symbol}
+                                    {swap.tokenOutId === selectedPool.tokenA.id ? selectedPool.tokenA.symbol : selectedPool.tokenB.symbol}
                                   </td>
                                   <td className="p-3">
-                                    {parseFloat(swap.amountOut as string) / Math.pow(10, swap.tokenOut === 'token0' ? Number(selectedPool.tokenA.decimals) : Number(selectedPool.tokenB.decimals))}
+                                    {parseFloat(swap.amountOut as string) / Math.pow(10, swap.tokenOutId === selectedPool.tokenA.id ? Number(selectedPool.tokenA.decimals) : Number(selectedPool.tokenB.decimals))}
                                   </td>
                                   <td className="p-3">
-                                    {new Date(Number(swap.createdAt)).toLocaleString()}
+                                    {new Date(swap.timestamp).toLocaleString()}
                                   </td>
                                 </tr>
                               ))}
@@ -956,7 +959,7 @@ export default function App() {
                               {selectedPool.liquidity.map((liq, index) => {
                                 const amountA = parseFloat(liq.amountA);
                                 const amountB = parseFloat(liq.amountB);
-                                const isAdd = amountA >= 0 && amountB >= 0;
+                                const isAdd = liq.action === "ADD";
                                 
                                 return (
                                   <tr key={index} className="border-t border-gray-200">
@@ -969,13 +972,13 @@ export default function App() {
                                       </span>
                                     </td>
                                     <td className="p-3">
-                                      {Math.abs(amountA) / Math.pow(10, Number(selectedPool.tokenA.decimals))}
+                                      {amountA / Math.pow(10, Number(selectedPool.tokenA.decimals))}
                                     </td>
                                     <td className="p-3">
-                                      {Math.abs(amountB) / Math.pow(10, Number(selectedPool.tokenB.decimals))}
+                                      {amountB / Math.pow(10, Number(selectedPool.tokenB.decimals))}
                                     </td>
                                     <td className="p-3">
-                                      {new Date(Number(liq.createdAt)).toLocaleString()}
+                                      {new Date(liq.timestamp).toLocaleString()}
                                     </td>
                                   </tr>
                                 );